@@ -2,7 +2,7 @@
 import React, { useEffect, useRef, useState, useMemo } from 'react';
 import * as THREE from 'three';
 import { Play, Pause, RotateCcw, Target, Info, Settings, BarChart3, ChevronLeft, ChevronRight, Camera } from 'lucide-react';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceDot, ReferenceLine } from 'recharts';
 import { 
   getDefaultCameraPosition, 
   getSavedCameraPosition,
@@ -10,6 +10,54 @@ import {
   clearCameraPositionsCache
 } from '../../services/cameraPositionService';
 import type { CameraPosition } from '../../types/cameraPosition';
+import type {
+  BodyFlight,
+  BounceSettings,
+  DragSettings,
+  GravityBodyId,
+  LaunchParams,
+  LaunchRun,
+  ScenarioId,
+  ScenarioResult,
+  TargetChallenge,
+  TerrainKind,
+  TerrainSettings,
+  Trajectory,
+  WindSettings
+} from '../../types/projectile';
+import {
+  DEFAULT_BOUNCE,
+  DEFAULT_DRAG,
+  DEFAULT_TERRAIN,
+  DEFAULT_WIND,
+  G,
+  createWindField,
+  getDragTrajectory,
+  getIdealTrajectory,
+  getImpactEnergyLoss,
+  getKineticEnergy,
+  getPotentialEnergy,
+  getTerminalVelocity,
+  sampleTrajectory
+} from './projectile/projectilePhysics';
+import { createTerrainGroup, disposeTerrainGroup } from './projectile/terrainGeometry';
+import { CUSTOM_GRAVITY_RANGE, GRAVITY_BODIES, getGravity, getGravityBody, toCssColor } from './projectile/gravityBodies';
+import { createComparisonGroup, createGhostGroup, disposeComparisonGroup, updateComparisonGroup } from './projectile/comparisonGeometry';
+import { DEFAULT_BALL_RADIUS, SCENARIOS, getScenario, getScenarioColliders, judgeScenario } from './projectile/scenarios';
+import { createScenarioGroup, updateScenarioGroup } from './projectile/scenarioGeometry';
+import { DEFAULT_MAX_RUNS, FAN_ANGLES, MAX_RUNS_LIMIT, addRuns, createRun, getFanAngles, getNextRunId } from './projectile/launchRuns';
+import {
+  CHALLENGE_TARGET_COUNT,
+  SHOTS_PER_TARGET,
+  advanceTarget,
+  createTargetChallenge,
+  getChallengeBlocks,
+  getCurrentTarget,
+  getMaxScore,
+  isTargetComplete,
+  recordShot
+} from './projectile/challenge';
+import { generateSeedCode } from '../../utils/random';
 import CameraPositionAdmin from '../admin/CameraPositionAdmin';
 
 interface ProjectileMotionSimulatorProps {
@@ -28,8 +76,30 @@ interface DisplacementDataPoint {
   time: number;
   x: number;
   y: number;
+  z: number;
 }
 
+interface EnergyDataPoint {
+  time: number;
+  kinetic: number;
+  potential: number;
+  total: number;
+}
+
+interface MomentumDataPoint {
+  time: number;
+  px: number;
+  py: number;
+  pz: number;
+}
+
+// Range for the readouts, or where the ball went when bounce never let it come to rest
+const formatRange = (trajectory: Trajectory, digits = 2) => {
+  if (trajectory.runaway === 'downhill') return 'Slides away downhill';
+  if (trajectory.runaway === 'off-ground') return 'Runs off the ground';
+  return `${trajectory.range.toFixed(digits)} m`;
+};
+
 // Module-level storage for Three.js objects - persists across component unmounts/remounts
 const persistentThreeJS = {
   scene: null as THREE.Scene | null,
@@ -39,6 +109,15 @@ const persistentThreeJS = {
   projectile: null as THREE.Mesh | null,
   target: null as THREE.Mesh | null,
   trailLine: null as THREE.Line | null,
+  idealPathLine: null as THREE.Line | null, // Dashed vacuum trajectory shown alongside the drag flight
+  windArrow: null as THREE.ArrowHelper | null,
+  ground: null as THREE.Mesh | null,
+  grid: null as THREE.GridHelper | null,
+  launchPad: null as THREE.Mesh | null,
+  terrainGroup: null as THREE.Group | null, // Launch tower, cliff, platform or slope, rebuilt when the terrain changes
+  comparisonGroup: null as THREE.Group | null, // Trails and balls flown alongside the projectile: other bodies or a fan of angles
+  ghostGroup: null as THREE.Group | null, // Trails of earlier launches
+  scenarioGroup: null as THREE.Group | null, // Props of the loaded classic scenario
       trailPoints: [] as THREE.Vector3[],
       simulationTime: 0,
       cameraAngle: { theta: Math.PI / 4, phi: Math.PI / 3.5 },
@@ -49,6 +128,7 @@ const persistentThreeJS = {
 const persistentState = {
   velocity: 20,
   angle: 45,
+  azimuth: 0,
   isRunning: false,
   autoRotate: true,
   showTrail: true,
@@ -66,6 +146,21 @@ const persistentState = {
   verticalVelocityData: [] as VelocityDataPoint[],
   horizontalVelocityData: [] as VelocityDataPoint[],
   displacementData: [] as DisplacementDataPoint[],
+  energyData: [] as EnergyDataPoint[],
+  momentumData: [] as MomentumDataPoint[],
+  drag: { ...DEFAULT_DRAG } as DragSettings,
+  terrain: { ...DEFAULT_TERRAIN } as TerrainSettings,
+  wind: { ...DEFAULT_WIND } as WindSettings,
+  bounce: { ...DEFAULT_BOUNCE } as BounceSettings,
+  gravityBody: 'earth' as GravityBodyId,
+  customGravity: G,
+  compareBodies: false,
+  runs: [] as LaunchRun[],
+  maxRuns: DEFAULT_MAX_RUNS,
+  fanActive: false,
+  scenarioId: null as ScenarioId | null,
+  scenarioResult: null as ScenarioResult | null,
+  challenge: null as TargetChallenge | null,
 };
 
 export default function ProjectileMotionSimulator({ 
@@ -83,9 +178,24 @@ export default function ProjectileMotionSimulator({
   // Initialize state from persistent storage
   const [velocity, setVelocity] = useState(() => persistentState.velocity);
   const [angle, setAngle] = useState(() => persistentState.angle);
+  const [azimuth, setAzimuth] = useState(() => persistentState.azimuth);
   const [isRunning, setIsRunning] = useState(() => persistentState.isRunning);
   const [autoRotate, setAutoRotate] = useState(() => persistentState.autoRotate);
   const [showTrail, setShowTrail] = useState(() => persistentState.showTrail);
+  const [drag, setDrag] = useState<DragSettings>(() => persistentState.drag);
+  const [terrain, setTerrain] = useState<TerrainSettings>(() => persistentState.terrain);
+  const [wind, setWind] = useState<WindSettings>(() => persistentState.wind);
+  const [bounce, setBounce] = useState<BounceSettings>(() => persistentState.bounce);
+  const [gravityBody, setGravityBody] = useState<GravityBodyId>(() => persistentState.gravityBody);
+  const [customGravity, setCustomGravity] = useState(() => persistentState.customGravity);
+  const [compareBodies, setCompareBodies] = useState(() => persistentState.compareBodies);
+  const [runs, setRuns] = useState<LaunchRun[]>(() => persistentState.runs);
+  const [maxRuns, setMaxRuns] = useState(() => persistentState.maxRuns);
+  const [fanActive, setFanActive] = useState(() => persistentState.fanActive);
+  const [scenarioId, setScenarioId] = useState<ScenarioId | null>(() => persistentState.scenarioId);
+  const [scenarioResult, setScenarioResult] = useState<ScenarioResult | null>(() => persistentState.scenarioResult);
+  const [challenge, setChallenge] = useState<TargetChallenge | null>(() => persistentState.challenge);
+  const [challengeSeedInput, setChallengeSeedInput] = useState(() => persistentState.challenge?.seed ?? '');
   
   // Current values
   const [currentHeight, setCurrentHeight] = useState(() => persistentState.currentHeight);
@@ -110,6 +220,8 @@ export default function ProjectileMotionSimulator({
   const [verticalVelocityData, setVerticalVelocityData] = useState<VelocityDataPoint[]>(() => [...persistentState.verticalVelocityData]);
   const [horizontalVelocityData, setHorizontalVelocityData] = useState<VelocityDataPoint[]>(() => [...persistentState.horizontalVelocityData]);
   const [displacementData, setDisplacementData] = useState<DisplacementDataPoint[]>(() => [...persistentState.displacementData]);
+  const [energyData, setEnergyData] = useState<EnergyDataPoint[]>(() => [...persistentState.energyData]);
+  const [momentumData, setMomentumData] = useState<MomentumDataPoint[]>(() => [...persistentState.momentumData]);
   
   // Chart Navigation (Phase 3)
   const [currentChartIndex, setCurrentChartIndex] = useState(() => persistentState.currentChartIndex);
@@ -121,6 +233,9 @@ export default function ProjectileMotionSimulator({
   useEffect(() => {
     persistentState.angle = angle;
   }, [angle]);
+  useEffect(() => {
+    persistentState.azimuth = azimuth;
+  }, [azimuth]);
   useEffect(() => {
     persistentState.isRunning = isRunning;
   }, [isRunning]);
@@ -130,6 +245,45 @@ export default function ProjectileMotionSimulator({
   useEffect(() => {
     persistentState.showTrail = showTrail;
   }, [showTrail]);
+  useEffect(() => {
+    persistentState.drag = drag;
+  }, [drag]);
+  useEffect(() => {
+    persistentState.terrain = terrain;
+  }, [terrain]);
+  useEffect(() => {
+    persistentState.wind = wind;
+  }, [wind]);
+  useEffect(() => {
+    persistentState.bounce = bounce;
+  }, [bounce]);
+  useEffect(() => {
+    persistentState.gravityBody = gravityBody;
+  }, [gravityBody]);
+  useEffect(() => {
+    persistentState.customGravity = customGravity;
+  }, [customGravity]);
+  useEffect(() => {
+    persistentState.compareBodies = compareBodies;
+  }, [compareBodies]);
+  useEffect(() => {
+    persistentState.runs = runs;
+  }, [runs]);
+  useEffect(() => {
+    persistentState.maxRuns = maxRuns;
+  }, [maxRuns]);
+  useEffect(() => {
+    persistentState.fanActive = fanActive;
+  }, [fanActive]);
+  useEffect(() => {
+    persistentState.scenarioId = scenarioId;
+  }, [scenarioId]);
+  useEffect(() => {
+    persistentState.scenarioResult = scenarioResult;
+  }, [scenarioResult]);
+  useEffect(() => {
+    persistentState.challenge = challenge;
+  }, [challenge]);
   useEffect(() => {
     persistentState.currentHeight = currentHeight;
   }, [currentHeight]);
@@ -169,6 +323,12 @@ export default function ProjectileMotionSimulator({
   useEffect(() => {
     persistentState.displacementData = [...displacementData];
   }, [displacementData]);
+  useEffect(() => {
+    persistentState.energyData = [...energyData];
+  }, [energyData]);
+  useEffect(() => {
+    persistentState.momentumData = [...momentumData];
+  }, [momentumData]);
   // Calculate appropriate time interval based on max time
   const getTimeInterval = (maxTime: number): number => {
     if (maxTime <= 2) {
@@ -243,9 +403,36 @@ export default function ProjectileMotionSimulator({
   
   const charts = useMemo(() => [
     { name: 'Vertical Velocity', data: verticalVelocityData, color: '#ef4444', unit: 'm/s', description: 'Shows how vertical velocity changes over time' },
-    { name: 'Horizontal Velocity', data: horizontalVelocityData, color: '#3b82f6', unit: 'm/s', description: 'Shows constant horizontal velocity' },
-    { name: 'Displacement', data: displacementData, color: '#a855f7', unit: 'm', description: 'Shows trajectory displacement over time' }
-  ], [verticalVelocityData, horizontalVelocityData, displacementData]);
+    { name: 'Horizontal Velocity', data: horizontalVelocityData, color: '#3b82f6', unit: 'm/s', description: drag.enabled ? 'Shows horizontal speed changing as air resistance and wind act on the projectile' : bounce.enabled ? 'Shows constant horizontal velocity between impacts; friction takes some of it away at each bounce' : 'Shows constant horizontal velocity' },
+    { name: 'Displacement', data: displacementData, color: '#a855f7', unit: 'm', description: 'Shows horizontal (x), vertical (y) and sideways (z) displacement over time' },
+    {
+      name: 'Energy',
+      data: energyData,
+      color: '#f59e0b',
+      unit: 'J',
+      description: `Shows kinetic (½mv²), potential (mgh above the launcher's foot) and total energy for the ${drag.mass.toFixed(2)} kg projectile. ${drag.enabled ? 'Drag does work against the motion, so the total falls steadily' : 'In a vacuum the total stays constant'}${bounce.enabled ? '; each impact takes a sudden drop out of it, marked with the energy lost' : ''}`,
+      series: [
+        { key: 'kinetic', name: 'Kinetic (J)', color: '#f59e0b' },
+        { key: 'potential', name: 'Potential (J)', color: '#22c55e' },
+        { key: 'total', name: 'Total (J)', color: '#e5e7eb' },
+      ],
+    },
+    {
+      name: 'Momentum',
+      data: momentumData,
+      color: '#06b6d4',
+      unit: 'kg·m/s',
+      description: drag.enabled
+        ? 'Shows the momentum components p = mv; drag and wind change every component, not just the vertical one'
+        : 'Shows the momentum components p = mv; gravity only changes the vertical component, so px and pz stay constant between impacts',
+      series: [
+        { key: 'px', name: 'px (kg·m/s)', color: '#3b82f6' },
+        { key: 'py', name: 'py (kg·m/s)', color: '#ef4444' },
+        { key: 'pz', name: 'pz (kg·m/s)', color: '#22c55e' },
+      ],
+    },
+    { name: 'Trajectory', data: displacementData, color: '#a855f7', unit: 'm', description: 'Shows height against horizontal distance from the launcher, with the apex and range marked once the projectile reaches them' }
+  ], [verticalVelocityData, horizontalVelocityData, displacementData, energyData, momentumData, drag.enabled, drag.mass, bounce.enabled]);
   
   const nextChart = () => {
     setCurrentChartIndex((prev) => (prev + 1) % charts.length);
@@ -376,11 +563,261 @@ export default function ProjectileMotionSimulator({
     handleContextMenu: null,
   });
 
-  const g = 9.81;
-  const angleRad = useMemo(() => angle * Math.PI / 180, [angle]);
-  const timeOfFlight = useMemo(() => (2 * velocity * Math.sin(angleRad)) / g, [velocity, angleRad]);
-  const range = useMemo(() => (velocity * velocity * Math.sin(2 * angleRad)) / g, [velocity, angleRad]);
-  const maxHeight = useMemo(() => (velocity ** 2 * Math.sin(angleRad) ** 2) / (2 * g), [velocity, angleRad]);
+  // Challenges are played on Earth from flat ground, with the target pillar and any obstacle as blocks on it
+  const isChallenge = challenge !== null;
+  const currentTarget = challenge && !challenge.finished ? getCurrentTarget(challenge) : null;
+  const challengeBlocks = useMemo(() => (currentTarget ? getChallengeBlocks(currentTarget) : []), [currentTarget]);
+  
+  // A classic scenario brings its own ground, props, ball size and colliders
+  const activeScenario = scenarioId ? getScenario(scenarioId) : null;
+  const activeTerrain = isChallenge ? DEFAULT_TERRAIN : activeScenario ? activeScenario.terrain : terrain;
+  const scenarioColliders = useMemo(() => (activeScenario ? getScenarioColliders(activeScenario) : []), [activeScenario]);
+  const ballRadius = activeScenario?.ballRadius ?? DEFAULT_BALL_RADIUS;
+  const velocityRange = activeScenario?.velocityRange ?? [5, 50, 1];
+  const angleRange = activeScenario ? activeScenario.angleRange : [15, 85, 1];
+  const gravity = isChallenge ? G : getGravity(gravityBody, customGravity);
+  // Challenges and scenarios are judged where the ball first comes down, so it never bounces in them
+  const activeBounce = !isChallenge && !activeScenario && bounce.enabled ? bounce : null;
+  
+  const launch = useMemo<LaunchParams>(
+    () => ({ speed: velocity, elevation: angle * Math.PI / 180, azimuth: azimuth * Math.PI / 180, gravity }),
+    [velocity, angle, azimuth, gravity]
+  );
+  
+  // The vacuum flight is always worked out so it can be overlaid on the drag flight
+  const idealTrajectory = useMemo(
+    () => getIdealTrajectory(launch, activeTerrain, challengeBlocks, scenarioColliders, activeBounce),
+    [launch, activeTerrain, challengeBlocks, scenarioColliders, activeBounce]
+  );
+  const dragTrajectory = useMemo(
+    () => (drag.enabled ? getDragTrajectory(launch, drag, wind, activeTerrain, challengeBlocks, scenarioColliders, activeBounce) : null),
+    [launch, drag, wind, activeTerrain, challengeBlocks, scenarioColliders, activeBounce]
+  );
+  // The wind arrow follows the same gusts as the drag flight
+  const windField = useMemo(() => createWindField(wind), [wind]);
+  const trajectory = dragTrajectory ?? idealTrajectory;
+  const timeOfFlight = trajectory.timeOfFlight;
+  const range = trajectory.range;
+  const maxHeight = trajectory.maxHeight;
+  
+  // The same launch on every preset body, in a vacuum so that only g differs between them
+  const comparisonFlights = useMemo<BodyFlight[]>(
+    () => (compareBodies && !isChallenge
+      ? GRAVITY_BODIES.map(body => ({
+          body,
+          color: body.color,
+          trajectory: getIdealTrajectory({ ...launch, gravity: body.gravity }, activeTerrain, [], scenarioColliders, activeBounce),
+        }))
+      : []),
+    [compareBodies, isChallenge, launch, activeTerrain, scenarioColliders, activeBounce]
+  );
+  const earthFlight = comparisonFlights.find(f => f.body.id === 'earth');
+  
+  // A fan of angles flies with the same speed, drag, wind and terrain as the main launch
+  const nextRunId = getNextRunId(runs);
+  const fanRuns = useMemo<LaunchRun[]>(
+    () => (fanActive
+      ? getFanAngles(angle).map((fanAngle, i) => {
+          const fanLaunch = { ...launch, elevation: fanAngle * Math.PI / 180 };
+          const flight = drag.enabled
+            ? getDragTrajectory(fanLaunch, drag, wind, activeTerrain, challengeBlocks, scenarioColliders, activeBounce)
+            : getIdealTrajectory(fanLaunch, activeTerrain, challengeBlocks, scenarioColliders, activeBounce);
+          return createRun(nextRunId + i, velocity, fanAngle, flight);
+        })
+      : []),
+    [fanActive, angle, velocity, launch, drag, wind, activeTerrain, challengeBlocks, scenarioColliders, activeBounce, nextRunId]
+  );
+  const extraFlights = useMemo(() => [...comparisonFlights, ...fanRuns], [comparisonFlights, fanRuns]);
+  // The run carries on until the slowest extra ball has landed, and a missed monkey has reached the ground
+  const monkeyFallTime = activeScenario?.target.kind === 'monkey' ? Math.sqrt((2 * activeScenario.target.height) / gravity) : 0;
+  const runTime = extraFlights.reduce((longest, f) => Math.max(longest, f.trajectory.timeOfFlight), Math.max(timeOfFlight, monkeyFallTime));
+  
+  const updateDrag = (changes: Partial<DragSettings>) => {
+    setDrag(prev => ({ ...prev, ...changes }));
+  };
+  
+  const updateTerrain = (changes: Partial<TerrainSettings>) => {
+    setTerrain(prev => ({ ...prev, ...changes }));
+  };
+  
+  const updateWind = (changes: Partial<WindSettings>) => {
+    setWind(prev => ({ ...prev, ...changes }));
+  };
+  
+  const updateBounce = (changes: Partial<BounceSettings>) => {
+    setBounce(prev => ({ ...prev, ...changes }));
+  };
+  
+  // Impacts change the velocity in an instant, so the lines are drawn straight rather than smoothed across them
+  const chartLineType = trajectory.impacts.length > 0 ? 'linear' : 'monotone';
+  const passedImpacts = trajectory.impacts.filter(impact => impact.t <= timeElapsed);
+  
+  // Time chart with several lines, for the overlay and the sidebar; the energy chart also marks each impact so far with the energy it took
+  const renderSeriesChart = (chart: (typeof charts)[number], compact: boolean) => {
+    const maxTime = getMaxTime(chart.data);
+    const interval = getTimeInterval(maxTime);
+    const timeTicks = generateTimeTicks(maxTime, interval).filter(t => t >= 0 && t <= maxTime * 1.1);
+    const tick = compact ? { fill: '#fff', fontSize: 12 } : { fill: '#fff' };
+    
+    return chart.data.length > 0 ? (
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={chart.data}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#444" />
+          <XAxis
+            dataKey="time"
+            type="number"
+            label={{ value: 'Time (s)', position: 'insideBottom', offset: -5, fill: '#fff' }}
+            stroke="#fff"
+            tick={tick}
+            domain={maxTime > 0 ? [0, maxTime * 1.05] : [0, 'dataMax']}
+            ticks={timeTicks.length >= 2 ? timeTicks : undefined}
+            tickFormatter={(value) => formatTimeTick(Number(value), interval)}
+            allowDecimals={true}
+          />
+          <YAxis
+            label={{ value: `${chart.name} (${chart.unit})`, angle: -90, position: 'insideLeft', fill: '#fff' }}
+            stroke="#fff"
+            tick={tick}
+          />
+          <Tooltip
+            contentStyle={{ backgroundColor: '#1f2937', border: '1px solid #4b5563' }}
+            labelStyle={{ color: '#fff' }}
+          />
+          {chart.series?.map(line => (
+            <Line
+              key={line.key}
+              type={chartLineType}
+              dataKey={line.key}
+              stroke={line.color}
+              strokeWidth={2}
+              dot={false}
+              name={line.name}
+              isAnimationActive={!isRunning}
+            />
+          ))}
+          {chart.name === 'Energy' && passedImpacts.map((impact, i) => (
+            <ReferenceDot
+              key={impact.t}
+              x={impact.t}
+              y={getKineticEnergy(drag.mass, impact.velocityAfter) + getPotentialEnergy(drag.mass, gravity, impact.y)}
+              r={4}
+              fill="#f97316"
+              stroke="#fff"
+              label={i < 5 ? { value: `−${getImpactEnergyLoss(impact, drag.mass).toFixed(1)} J`, position: 'top', fill: '#fdba74', fontSize: 10 } : undefined}
+            />
+          ))}
+        </LineChart>
+      </ResponsiveContainer>
+    ) : (
+      <div className={`h-full flex items-center justify-center text-gray-400 border border-gray-600 rounded-lg${compact ? ' text-sm' : ''}`}>
+        Start the simulation to see the chart
+      </div>
+    );
+  };
+  
+  // Height against horizontal distance, annotated with the apex once the projectile is falling and the range once it has landed
+  const renderPathChart = (compact: boolean) => {
+    const pathData = displacementData.map(d => ({ distance: Math.hypot(d.x, d.z), y: d.y }));
+    const tick = compact ? { fill: '#fff', fontSize: 12 } : { fill: '#fff' };
+    const pastApex = verticalVelocityData.some(d => d.velocity < 0);
+    const landed = timeElapsed >= timeOfFlight;
+    
+    return pathData.length > 0 ? (
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={pathData}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#444" />
+          <XAxis
+            dataKey="distance"
+            type="number"
+            label={{ value: 'Horizontal Distance (m)', position: 'insideBottom', offset: -5, fill: '#fff' }}
+            stroke="#fff"
+            tick={tick}
+            domain={[0, 'dataMax']}
+            tickFormatter={(value) => Number(value).toFixed(0)}
+          />
+          <YAxis
+            label={{ value: 'Height (m)', angle: -90, position: 'insideLeft', fill: '#fff' }}
+            stroke="#fff"
+            tick={tick}
+          />
+          <Tooltip
+            contentStyle={{ backgroundColor: '#1f2937', border: '1px solid #4b5563' }}
+            labelStyle={{ color: '#fff' }}
+            labelFormatter={(value) => `x = ${Number(value).toFixed(2)} m`}
+          />
+          <Line
+            type="linear"
+            dataKey="y"
+            stroke="#a855f7"
+            strokeWidth={2}
+            dot={false}
+            name="Height (m)"
+            isAnimationActive={!isRunning}
+          />
+          {pastApex && (
+            <ReferenceDot
+              x={trajectory.apexDistance}
+              y={trajectory.maxHeight}
+              r={4}
+              fill="#f59e0b"
+              stroke="#fff"
+              label={{ value: `Apex ${trajectory.maxHeight.toFixed(1)} m`, position: 'top', fill: '#fcd34d', fontSize: 11 }}
+            />
+          )}
+          {landed && !trajectory.runaway && (
+            <ReferenceLine
+              x={range}
+              stroke="#22c55e"
+              strokeDasharray="4 4"
+              label={{ value: `Range ${range.toFixed(1)} m`, position: 'insideTopRight', fill: '#86efac', fontSize: 11 }}
+            />
+          )}
+        </LineChart>
+      </ResponsiveContainer>
+    ) : (
+      <div className={`h-full flex items-center justify-center text-gray-400 border border-gray-600 rounded-lg${compact ? ' text-sm' : ''}`}>
+        Start the simulation to see the chart
+      </div>
+    );
+  };
+  
+  // Kinetic energy lost at each impact so far, shown under the energy chart
+  const renderImpactLosses = () => {
+    if (passedImpacts.length === 0) return null;
+    return (
+      <table className="w-full text-xs text-gray-300 mt-2">
+        <thead>
+          <tr className="text-gray-400">
+            <th className="text-left font-normal">Impact</th>
+            <th className="text-right font-normal">t</th>
+            <th className="text-right font-normal">KE Lost</th>
+            <th className="text-right font-normal">Lost</th>
+          </tr>
+        </thead>
+        <tbody>
+          {passedImpacts.slice(0, 8).map((impact, i) => {
+            const before = getKineticEnergy(drag.mass, impact.velocityBefore);
+            const lost = getImpactEnergyLoss(impact, drag.mass);
+            return (
+              <tr key={impact.t}>
+                <td>{i + 1} ({impact.surface})</td>
+                <td className="text-right">{impact.t.toFixed(2)} s</td>
+                <td className="text-right">{lost.toFixed(2)} J</td>
+                <td className="text-right">{before > 0 ? ((lost / before) * 100).toFixed(0) : '0'}%</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    );
+  };
+  
+  // Each preset body brings its own atmosphere, so the drag flight uses its air density
+  const selectGravityBody = (id: GravityBodyId) => {
+    setGravityBody(id);
+    const body = getGravityBody(id);
+    if (body) updateDrag({ airDensity: body.airDensity });
+  };
   
   // Sync simulation time and camera angle to persistent storage
   useEffect(() => {
@@ -393,10 +830,18 @@ export default function ProjectileMotionSimulator({
     return () => clearInterval(interval);
   }, []);
   
-  // Update panOffset when range/maxHeight changes
+  // Update panOffset when range/maxHeight changes; in a challenge or scenario frame the target instead of giving the range away
   useEffect(() => {
-    panOffsetRef.current.set(range / 2, maxHeight / 2, 0);
-  }, [range, maxHeight]);
+    if (currentTarget) {
+      panOffsetRef.current.set(currentTarget.distance / 2, currentTarget.height / 2 + 5, 0);
+    } else if (activeScenario) {
+      const { target, terrain: scenarioTerrain } = activeScenario;
+      const targetHeight = target.kind === 'monkey' ? target.height : target.kind === 'hoop' ? target.rimHeight : 0;
+      panOffsetRef.current.set(target.distance / 2, Math.max(targetHeight, scenarioTerrain.launchHeight) / 2, 0);
+    } else {
+      panOffsetRef.current.set(trajectory.landingX / 2, maxHeight / 2, trajectory.landingZ / 2);
+    }
+  }, [trajectory, maxHeight, currentTarget, activeScenario]);
   
   // Track window size for responsive behavior
   useEffect(() => {
@@ -623,19 +1068,22 @@ export default function ProjectileMotionSimulator({
     ground.rotation.x = -Math.PI / 2;
     ground.receiveShadow = true;
     scene.add(ground);
+      persistentThreeJS.ground = ground;
     
     const grid = new THREE.GridHelper(200, 100, 0x4a5568, 0x4a5568);
     grid.material.opacity = 0.5;
     grid.material.transparent = true;
     scene.add(grid);
+      persistentThreeJS.grid = grid;
 
     const platform = new THREE.Mesh(new THREE.CylinderGeometry(1.5, 2, 0.5, 32), new THREE.MeshStandardMaterial({ color: 0x718096 }));
-    platform.position.set(0, 0.25, 0);
+    platform.position.set(0, terrain.launchHeight + 0.25, 0);
     platform.castShadow = true;
     scene.add(platform);
+      persistentThreeJS.launchPad = platform;
     
     const projectile = new THREE.Mesh(new THREE.SphereGeometry(0.5, 32, 32), new THREE.MeshStandardMaterial({ color: 0x38b2ac, roughness: 0.3 }));
-    projectile.position.set(0, 0.5, 0);
+    projectile.position.set(0, terrain.launchHeight + 0.5, 0);
     projectile.castShadow = true;
     scene.add(projectile);
     simulationState.current.projectile = projectile;
@@ -652,6 +1100,19 @@ export default function ProjectileMotionSimulator({
     simulationState.current.trailLine = trailLine;
     persistentThreeJS.trailLine = trailLine;
     
+    const idealPathLine = new THREE.Line(
+      new THREE.BufferGeometry(),
+      new THREE.LineDashedMaterial({ color: 0xa0aec0, dashSize: 0.6, gapSize: 0.4 })
+    );
+    idealPathLine.visible = false;
+    scene.add(idealPathLine);
+    persistentThreeJS.idealPathLine = idealPathLine;
+    
+    const windArrow = new THREE.ArrowHelper(new THREE.Vector3(1, 0, 0), new THREE.Vector3(-4, 6, 0), 3, 0x90cdf4, 0.8, 0.5);
+    windArrow.visible = false;
+    scene.add(windArrow);
+    persistentThreeJS.windArrow = windArrow;
+    
       // Mark as initialized in persistent storage
       persistentThreeJS.isInitialized = true;
       
@@ -1321,84 +1782,320 @@ export default function ProjectileMotionSimulator({
     return () => clearTimeout(timeoutId);
   }, [isEmbedded]);
 
-  // Update target position when range changes
+  // Update target position when the landing point changes, lying flat on the surface it lands on
+  // In a challenge the target is the face of the current target pillar instead
+  useEffect(() => {
+    const target = persistentThreeJS.target;
+    if (!target) return;
+    if (activeScenario) {
+      target.visible = false;
+      return;
+    }
+    if (isChallenge) {
+      target.visible = currentTarget !== null;
+      if (currentTarget) {
+        target.position.set(currentTarget.distance, currentTarget.height + 0.05, 0);
+        target.rotation.set(0, 0, 0);
+        target.scale.set(currentTarget.radius / 2, 1, currentTarget.radius / 2);
+      }
+      return;
+    }
+    target.visible = true;
+    target.scale.set(1, 1, 1);
+    target.position.set(trajectory.landingX, trajectory.landingY + 0.05, trajectory.landingZ);
+    if (trajectory.hitWall) {
+      target.rotation.set(0, 0, Math.PI / 2);
+    } else {
+      target.rotation.set(0, 0, terrain.kind === 'incline' ? (terrain.inclineAngle * Math.PI) / 180 : 0);
+    }
+  }, [trajectory, terrain, isChallenge, currentTarget, activeScenario, sceneReady]);
+  
+  // Rebuild the terrain meshes and move the launch pad to the launch height
+  useEffect(() => {
+    const scene = persistentThreeJS.scene;
+    if (!scene) return;
+    if (persistentThreeJS.terrainGroup) {
+      scene.remove(persistentThreeJS.terrainGroup);
+      disposeTerrainGroup(persistentThreeJS.terrainGroup);
+    }
+    const group = createTerrainGroup(activeTerrain, challengeBlocks, !activeScenario);
+    scene.add(group);
+    persistentThreeJS.terrainGroup = group;
+    
+    // Sloped ground replaces the flat ground rather than cutting through it
+    if (persistentThreeJS.ground) persistentThreeJS.ground.visible = activeTerrain.kind !== 'incline';
+    if (persistentThreeJS.grid) persistentThreeJS.grid.visible = activeTerrain.kind !== 'incline';
+    if (persistentThreeJS.launchPad) {
+      persistentThreeJS.launchPad.position.y = activeTerrain.launchHeight + 0.25;
+      persistentThreeJS.launchPad.visible = !activeScenario || activeScenario.target.kind === 'monkey';
+    }
+    if (persistentThreeJS.projectile) {
+      persistentThreeJS.projectile.scale.setScalar(ballRadius / DEFAULT_BALL_RADIUS);
+      if (!isRunning && simulationState.current.simulationTime === 0) {
+        persistentThreeJS.projectile.position.set(0, activeTerrain.launchHeight + ballRadius, 0);
+      }
+    }
+  }, [activeTerrain, challengeBlocks, activeScenario, ballRadius, sceneReady]);
+  
+  // Scenario props, placed for the current point in the flight
+  useEffect(() => {
+    const scene = persistentThreeJS.scene;
+    if (!scene) return;
+    if (persistentThreeJS.scenarioGroup) {
+      scene.remove(persistentThreeJS.scenarioGroup);
+      disposeTerrainGroup(persistentThreeJS.scenarioGroup);
+      persistentThreeJS.scenarioGroup = null;
+    }
+    if (!activeScenario) return;
+    const group = createScenarioGroup(activeScenario);
+    updateScenarioGroup(group, activeScenario, simulationState.current.simulationTime, gravity, trajectory.points[0].vx);
+    scene.add(group);
+    persistentThreeJS.scenarioGroup = group;
+  }, [activeScenario, sceneReady]);
+  
+  // Wind arrow above the launcher, length proportional to the wind speed at time t
+  const pointWindArrow = (t: number) => {
+    const arrow = persistentThreeJS.windArrow;
+    if (!arrow) return;
+    const [wx, wz] = windField(t);
+    const speed = Math.hypot(wx, wz);
+    arrow.visible = drag.enabled && wind.speed > 0;
+    arrow.position.set(-4, activeTerrain.launchHeight + 6, 0);
+    if (speed > 0) {
+      arrow.setDirection(new THREE.Vector3(wx / speed, 0, wz / speed));
+      arrow.setLength(1 + speed * 0.3, 0.8, 0.5);
+    }
+  };
+  
+  useEffect(() => {
+    pointWindArrow(simulationState.current.simulationTime);
+  }, [wind, drag.enabled, activeTerrain, sceneReady]);
+  
+  // Dashed vacuum path next to the drag flight, so the effect of air resistance is visible
+  useEffect(() => {
+    const line = persistentThreeJS.idealPathLine;
+    if (!line) return;
+    line.geometry.setFromPoints(idealTrajectory.points.map(p => new THREE.Vector3(p.x, p.y + ballRadius, p.z)));
+    line.computeLineDistances();
+    line.visible = drag.enabled && !isChallenge;
+  }, [idealTrajectory, drag.enabled, isChallenge, ballRadius, sceneReady]);
+  
+  // Rebuild the extra trails and balls when the comparison or fan launches change
+  useEffect(() => {
+    const scene = persistentThreeJS.scene;
+    if (!scene) return;
+    if (persistentThreeJS.comparisonGroup) {
+      scene.remove(persistentThreeJS.comparisonGroup);
+      disposeComparisonGroup(persistentThreeJS.comparisonGroup);
+      persistentThreeJS.comparisonGroup = null;
+    }
+    if (extraFlights.length === 0) return;
+    const group = createComparisonGroup(extraFlights, ballRadius);
+    updateComparisonGroup(group, extraFlights, simulationState.current.simulationTime, showTrail, ballRadius);
+    scene.add(group);
+    persistentThreeJS.comparisonGroup = group;
+  }, [extraFlights, ballRadius, sceneReady]);
+  
+  // Ghost trails of the earlier launches
   useEffect(() => {
-    if (persistentThreeJS.target) {
-      persistentThreeJS.target.position.x = range;
+    const scene = persistentThreeJS.scene;
+    if (!scene) return;
+    if (persistentThreeJS.ghostGroup) {
+      scene.remove(persistentThreeJS.ghostGroup);
+      disposeComparisonGroup(persistentThreeJS.ghostGroup);
+      persistentThreeJS.ghostGroup = null;
     }
-  }, [range]);
+    if (runs.length === 0) return;
+    const group = createGhostGroup(runs, ballRadius);
+    scene.add(group);
+    persistentThreeJS.ghostGroup = group;
+  }, [runs, ballRadius, sceneReady]);
 
   // Simulation run loop with data collection
   useEffect(() => {
     if (!isRunning) return;
     const interval = setInterval(() => {
-      simulationState.current.simulationTime += 0.05;
-      const t = simulationState.current.simulationTime;
-      
-      if (t >= timeOfFlight) {
+      const previous = simulationState.current.simulationTime;
+      if (previous >= runTime) {
         setIsRunning(false);
         return;
       }
+      // The last step lands exactly on the terrain before stopping
+      simulationState.current.simulationTime = Math.min(previous + 0.05, runTime);
+      const elapsed = simulationState.current.simulationTime;
+      if (elapsed >= runTime) {
+        // Keep this launch, and any fan fired with it, as ghost trails
+        setIsRunning(false);
+        setRuns(prev => addRuns(prev, [...fanRuns, createRun(nextRunId + fanRuns.length, velocity, angle, trajectory)], maxRuns));
+        setFanActive(false);
+      }
+      if (persistentThreeJS.comparisonGroup) {
+        updateComparisonGroup(persistentThreeJS.comparisonGroup, extraFlights, elapsed, showTrail, ballRadius);
+      }
+      if (persistentThreeJS.scenarioGroup && activeScenario) {
+        updateScenarioGroup(persistentThreeJS.scenarioGroup, activeScenario, elapsed, gravity, trajectory.points[0].vx);
+      }
       
-      const x = (velocity * Math.cos(angleRad)) * t;
-      const y = (velocity * Math.sin(angleRad)) * t - 0.5 * g * t * t;
+      // The main projectile may land before the comparison balls do
+      if (previous >= timeOfFlight) return;
+      const t = Math.min(elapsed, timeOfFlight);
+      const landed = t >= timeOfFlight;
+      const { x, y, z, vx: v_x, vy: v_y, vz: v_z } = sampleTrajectory(trajectory, t);
+      // Impacts since the last tick, so the trail keeps its corners and the charts their jumps
+      const impacts = trajectory.impacts.filter(impact => impact.t > previous && impact.t <= t);
+      const jumps = impacts.flatMap(impact => [
+        { time: impact.t, height: impact.y, velocity: impact.velocityBefore },
+        { time: impact.t, height: impact.y, velocity: impact.velocityAfter },
+      ]);
+      const energyAt = (time: number, height: number, v: [number, number, number]) => {
+        const kinetic = getKineticEnergy(drag.mass, v);
+        const potential = getPotentialEnergy(drag.mass, gravity, height);
+        return { time, kinetic, potential, total: kinetic + potential };
+      };
+      const momentumAt = (time: number, [px, py, pz]: [number, number, number]) => ({ time, px: drag.mass * px, py: drag.mass * py, pz: drag.mass * pz });
+      if (landed) {
+        setChallenge(prev => (prev ? recordShot(prev, velocity, angle, trajectory) : prev));
+        if (activeScenario) setScenarioResult(judgeScenario(activeScenario, trajectory, gravity));
+      }
       
       if (persistentThreeJS.projectile) {
-        persistentThreeJS.projectile.position.set(x, Math.max(0.5, y + 0.5), 0);
+        persistentThreeJS.projectile.position.set(x, y + ballRadius, z);
+      }
+      
+      if (wind.gusts) {
+        pointWindArrow(t);
       }
       
       if (showTrail && persistentThreeJS.trailLine) {
-        simulationState.current.trailPoints.push(new THREE.Vector3(x, Math.max(0.5, y + 0.5), 0));
+        impacts.forEach(impact => simulationState.current.trailPoints.push(new THREE.Vector3(impact.x, impact.y + ballRadius, impact.z)));
+        simulationState.current.trailPoints.push(new THREE.Vector3(x, y + ballRadius, z));
         persistentThreeJS.trailLine.geometry.setFromPoints(simulationState.current.trailPoints);
       }
       
       // Update current values
-      setCurrentHeight(Math.max(0, y));
+      setCurrentHeight(y);
       setCurrentDistance(x);
       setTimeElapsed(t);
       
       // Collect chart data (Phase 2)
-      const v_y = velocity * Math.sin(angleRad) - g * t; // Vertical velocity
-      const v_x = velocity * Math.cos(angleRad); // Horizontal velocity (constant)
-      
-      setVerticalVelocityData(prev => [...prev, { time: t, velocity: v_y }]);
-      setHorizontalVelocityData(prev => [...prev, { time: t, velocity: v_x }]);
-      setDisplacementData(prev => [...prev, { time: t, x, y }]);
+      setVerticalVelocityData(prev => [...prev, ...jumps.map(j => ({ time: j.time, velocity: j.velocity[1] })), { time: t, velocity: v_y }]);
+      setHorizontalVelocityData(prev => [
+        ...prev,
+        ...jumps.map(j => ({ time: j.time, velocity: Math.hypot(j.velocity[0], j.velocity[2]) })),
+        { time: t, velocity: Math.hypot(v_x, v_z) },
+      ]);
+      setDisplacementData(prev => [...prev, ...impacts.map(impact => ({ time: impact.t, x: impact.x, y: impact.y, z: impact.z })), { time: t, x, y, z }]);
+      setEnergyData(prev => [...prev, ...jumps.map(j => energyAt(j.time, j.height, j.velocity)), energyAt(t, y, [v_x, v_y, v_z])]);
+      setMomentumData(prev => [...prev, ...jumps.map(j => momentumAt(j.time, j.velocity)), momentumAt(t, [v_x, v_y, v_z])]);
     }, 50);
     
     return () => clearInterval(interval);
-  }, [isRunning, velocity, angle, timeOfFlight, showTrail, angleRad]);
+  }, [isRunning, trajectory, timeOfFlight, runTime, extraFlights, fanRuns, nextRunId, maxRuns, showTrail, velocity, angle, wind, drag.mass, activeScenario, gravity, ballRadius]);
 
   const reset = () => {
     setIsRunning(false);
     simulationState.current.simulationTime = 0;
-    setCurrentHeight(0);
+    setCurrentHeight(activeTerrain.launchHeight);
     setCurrentDistance(0);
     setTimeElapsed(0);
     if (persistentThreeJS.projectile) {
-      persistentThreeJS.projectile.position.set(0, 0.5, 0);
+      persistentThreeJS.projectile.position.set(0, activeTerrain.launchHeight + ballRadius, 0);
     }
+    setFanActive(false);
+    setScenarioResult(null);
     simulationState.current.trailPoints = [];
     if (persistentThreeJS.trailLine) {
       persistentThreeJS.trailLine.geometry.setFromPoints([]);
     }
+    if (persistentThreeJS.comparisonGroup) {
+      updateComparisonGroup(persistentThreeJS.comparisonGroup, extraFlights, 0, showTrail, ballRadius);
+    }
+    if (persistentThreeJS.scenarioGroup && activeScenario) {
+      updateScenarioGroup(persistentThreeJS.scenarioGroup, activeScenario, 0, gravity, 0);
+    }
     
     // Clear chart data on reset (Phase 2)
     setVerticalVelocityData([]);
     setHorizontalVelocityData([]);
     setDisplacementData([]);
+    setEnergyData([]);
+    setMomentumData([]);
     
     // Clear persistent state
     persistentState.isRunning = false;
-    persistentState.currentHeight = 0;
+    persistentState.currentHeight = activeTerrain.launchHeight;
     persistentState.currentDistance = 0;
     persistentState.timeElapsed = 0;
     persistentState.verticalVelocityData = [];
     persistentState.horizontalVelocityData = [];
     persistentState.displacementData = [];
+    persistentState.energyData = [];
+    persistentState.momentumData = [];
     persistentThreeJS.simulationTime = 0;
     persistentThreeJS.trailPoints = [];
   };
+  
+  const startChallenge = (seed: string) => {
+    const next = createTargetChallenge(seed.trim() || generateSeedCode());
+    exitScenario();
+    setChallenge(next);
+    setChallengeSeedInput(next.seed);
+    reset();
+  };
+  
+  const exitChallenge = () => {
+    setChallenge(null);
+    reset();
+  };
+  
+  // Load a scenario's starting conditions: Earth gravity, no air resistance and a straight launch
+  const loadScenario = (id: ScenarioId) => {
+    const scenario = getScenario(id);
+    setChallenge(null);
+    setScenarioId(id);
+    setVelocity(scenario.velocity);
+    setAngle(scenario.angle);
+    setAzimuth(0);
+    selectGravityBody('earth');
+    updateDrag({ enabled: false });
+    cameraDistanceRef.current = scenario.cameraDistance;
+    reset();
+  };
+  
+  // Scenario speeds and angles can be outside the usual slider ranges
+  const exitScenario = () => {
+    if (!activeScenario) return;
+    setScenarioId(null);
+    setVelocity(prev => Math.min(50, Math.max(5, Math.round(prev))));
+    setAngle(prev => Math.min(85, Math.max(15, Math.round(prev))));
+    cameraDistanceRef.current = 40;
+    reset();
+  };
+  
+  // Fire the fan of angles together with the main launch
+  const fireFan = () => {
+    reset();
+    setFanActive(true);
+    setIsRunning(true);
+  };
+  
+  const changeMaxRuns = (limit: number) => {
+    setMaxRuns(limit);
+    setRuns(prev => prev.slice(-limit));
+  };
+  
+  // Each shot starts from the launcher with the current velocity and angle
+  const fireShot = () => {
+    reset();
+    setIsRunning(true);
+  };
+  
+  const nextTarget = () => {
+    setChallenge(prev => (prev ? advanceTarget(prev) : prev));
+    reset();
+  };
+  
+  const lastShot = challenge && challenge.shots.length > 0 ? challenge.shots[challenge.shots.length - 1] : null;
 
   return (
     <div className="w-full h-screen bg-gradient-to-br from-slate-900 via-indigo-950 to-slate-900 overflow-hidden flex flex-col relative">
@@ -1441,6 +2138,11 @@ export default function ProjectileMotionSimulator({
                   <p className="text-xs text-green-300">Time</p>
                   <p className="text-sm font-bold text-green-100">{timeElapsed.toFixed(2)} s</p>
                 </div>
+                <div className="text-center">
+                  <p className="text-xs text-orange-300">Impact</p>
+                  <p className="text-sm font-bold text-orange-100">{trajectory.impactSpeed.toFixed(1)} m/s</p>
+                  <p className="text-xs font-bold text-orange-100">{trajectory.impactAngle.toFixed(1)}° below horiz.</p>
+                </div>
                 <div className="text-center">
                   <p className="text-xs text-yellow-300">Status</p>
                   <p className="text-xs font-bold text-yellow-100">{isRunning ? 'Running' : 'Stopped'}</p>
@@ -1525,6 +2227,90 @@ export default function ProjectileMotionSimulator({
           />
         )}
 
+        {/* Challenge Scoreboard - Top Center */}
+        {challenge && (
+          <div className="absolute top-4 left-1/2 -translate-x-1/2 z-10">
+            <div className="bg-black bg-opacity-70 backdrop-blur-sm text-white px-4 py-3 rounded-lg shadow-lg text-center space-y-1 min-w-[16rem]">
+              {challenge.finished ? (
+                <>
+                  <p className="text-sm font-semibold text-yellow-300">Challenge {challenge.seed} complete</p>
+                  <p className="text-xs">
+                    Score {challenge.score} / {getMaxScore(challenge)} · {challenge.hits} of {challenge.targets.length} targets hit · best streak {challenge.bestStreak}
+                  </p>
+                  <button
+                    onClick={() => startChallenge('')}
+                    className="bg-yellow-600 hover:bg-yellow-700 text-white text-xs px-3 py-1 rounded-md"
+                  >
+                    New Challenge
+                  </button>
+                </>
+              ) : (
+                <>
+                  <p className="text-sm font-semibold text-yellow-300">
+                    Target {challenge.currentIndex + 1} of {challenge.targets.length}: {currentTarget!.distance} m away
+                    {currentTarget!.height > 0 ? `, ${currentTarget!.height} m up` : ', on the ground'}
+                    {currentTarget!.obstacle ? ' (behind a wall)' : ''}
+                  </p>
+                  <p className="text-xs">
+                    Shots left {challenge.shotsPerTarget - challenge.shots.length} · Score {challenge.score} · Streak {challenge.streak}
+                  </p>
+                  {lastShot && !isRunning && (
+                    <p className={`text-xs font-semibold ${lastShot.outcome === 'hit' ? 'text-green-300' : 'text-red-300'}`}>
+                      {lastShot.outcome === 'hit'
+                        ? 'Hit!'
+                        : lastShot.outcome === 'blocked'
+                          ? 'Blocked by the wall'
+                          : `Missed: ${Math.abs(lastShot.missBy).toFixed(1)} m ${lastShot.missBy > 0 ? 'long' : 'short'}${
+                              Math.abs(lastShot.driftBy) >= 0.1 ? `, ${Math.abs(lastShot.driftBy).toFixed(1)} m to the ${lastShot.driftBy > 0 ? '+z' : '−z'} side` : ''
+                            }`}
+                      {' '}({lastShot.velocity} m/s at {lastShot.angle}°)
+                    </p>
+                  )}
+                  {isTargetComplete(challenge) ? (
+                    <button
+                      onClick={nextTarget}
+                      className="bg-yellow-600 hover:bg-yellow-700 text-white text-xs px-3 py-1 rounded-md"
+                    >
+                      {challenge.currentIndex + 1 < challenge.targets.length ? 'Next Target' : 'Finish'}
+                    </button>
+                  ) : (
+                    <button
+                      onClick={fireShot}
+                      disabled={isRunning}
+                      className="bg-green-600 hover:bg-green-700 disabled:opacity-40 text-white text-xs px-3 py-1 rounded-md"
+                    >
+                      Fire ({velocity} m/s at {angle}°)
+                    </button>
+                  )}
+                </>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Scenario Prompt - Top Center */}
+        {activeScenario && (
+          <div className="absolute top-4 left-1/2 -translate-x-1/2 z-10">
+            <div className="bg-black bg-opacity-70 backdrop-blur-sm text-white px-4 py-3 rounded-lg shadow-lg text-center space-y-1 max-w-md">
+              <p className="text-sm font-semibold text-green-300">{activeScenario.name}</p>
+              <p className="text-xs">{activeScenario.prompt}</p>
+              <p className="text-xs text-gray-300">Goal: {activeScenario.goal}</p>
+              {scenarioResult && !isRunning && (
+                <p className={`text-xs font-semibold ${scenarioResult.success ? 'text-green-300' : 'text-red-300'}`}>
+                  {scenarioResult.message} ({velocity} m/s at {angle}°)
+                </p>
+              )}
+              <button
+                onClick={fireShot}
+                disabled={isRunning}
+                className="bg-green-600 hover:bg-green-700 disabled:opacity-40 text-white text-xs px-3 py-1 rounded-md"
+              >
+                {scenarioResult ? 'Try Again' : 'Launch'}
+              </button>
+            </div>
+          </div>
+        )}
+
         {/* Floating Start/Stop and Reset Buttons - Bottom Center (Fullscreen only) */}
         {!isEmbedded && !showChart && !showChartSidebar && !showTutorial && (
           <div 
@@ -1536,7 +2322,7 @@ export default function ProjectileMotionSimulator({
           >
             <div className="flex gap-2">
               <button
-                onClick={() => setIsRunning(!isRunning)}
+                onClick={() => ((isChallenge || activeScenario) && !isRunning ? fireShot() : setIsRunning(!isRunning))}
                 className={`flex items-center justify-center w-14 h-14 rounded-full font-semibold transition shadow-xl ${
                   isRunning
                     ? 'bg-red-500 hover:bg-red-600 text-white'
@@ -1581,8 +2367,9 @@ export default function ProjectileMotionSimulator({
                   </label>
                   <input 
                     type="range" 
-                    min="5" 
-                    max="50" 
+                    min={velocityRange[0]} 
+                    max={velocityRange[1]} 
+                    step={velocityRange[2]}
                     value={velocity} 
                     onChange={(e) => setVelocity(parseFloat(e.target.value))} 
                     className="w-full accent-cyan-400" 
@@ -1592,19 +2379,437 @@ export default function ProjectileMotionSimulator({
                 
                 <div>
                   <label className="block text-sm font-medium text-gray-300 mb-2">
-                    Launch Angle: {angle}°
+                    Launch Angle: {angle}°{angleRange ? '' : ' (horizontal launch)'}
+                  </label>
+                  {angleRange && (
+                    <input 
+                      type="range" 
+                      min={angleRange[0]} 
+                      max={angleRange[1]} 
+                      step={angleRange[2]}
+                      value={angle} 
+                      onChange={(e) => setAngle(parseFloat(e.target.value))} 
+                      className="w-full accent-cyan-400" 
+                      disabled={isRunning} 
+                    />
+                  )}
+                </div>
+                
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">
+                    Launch Azimuth: {azimuth}° {azimuth !== 0 ? `(towards ${azimuth > 0 ? '+z' : '−z'})` : '(straight downrange)'}
                   </label>
                   <input 
                     type="range" 
-                    min="15" 
-                    max="85" 
-                    value={angle} 
-                    onChange={(e) => setAngle(parseFloat(e.target.value))} 
+                    min="-45" 
+                    max="45" 
+                    value={azimuth} 
+                    onChange={(e) => setAzimuth(parseFloat(e.target.value))} 
                     className="w-full accent-cyan-400" 
                     disabled={isRunning} 
                   />
                 </div>
                 
+                {!isChallenge && (
+                <div className="bg-gray-700/50 p-3 rounded-lg space-y-3">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-300 mb-2">Gravity: {gravity.toFixed(2)} m/s²</label>
+                    <select
+                      value={gravityBody}
+                      onChange={(e) => selectGravityBody(e.target.value as GravityBodyId)}
+                      className="w-full p-2 bg-gray-900 text-white border border-gray-600 rounded-md"
+                      disabled={isRunning}
+                    >
+                      {GRAVITY_BODIES.map(body => (
+                        <option key={body.id} value={body.id}>{body.name} ({body.gravity} m/s²)</option>
+                      ))}
+                      <option value="custom">Custom</option>
+                    </select>
+                  </div>
+                  
+                  {gravityBody === 'custom' && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-300 mb-2">
+                        Custom g: {customGravity.toFixed(2)} m/s²
+                      </label>
+                      <input 
+                        type="range" 
+                        min={CUSTOM_GRAVITY_RANGE[0]} 
+                        max={CUSTOM_GRAVITY_RANGE[1]} 
+                        step="0.01"
+                        value={customGravity} 
+                        onChange={(e) => setCustomGravity(parseFloat(e.target.value))} 
+                        className="w-full accent-cyan-400" 
+                        disabled={isRunning} 
+                      />
+                    </div>
+                  )}
+                  
+                  {gravityBody !== 'custom' && (
+                    <p className="text-xs text-gray-400">
+                      Choosing a body also sets the air density to its atmosphere ({getGravityBody(gravityBody)!.airDensity} kg/m³).
+                    </p>
+                  )}
+                  
+                  <label className="flex items-center gap-2 text-gray-300 cursor-pointer">
+                    <input 
+                      type="checkbox" 
+                      checked={compareBodies} 
+                      onChange={(e) => setCompareBodies(e.target.checked)} 
+                      className="w-4 h-4 accent-cyan-500" 
+                      disabled={isRunning}
+                    />
+                    Compare the launch on every body
+                  </label>
+                </div>
+                )}
+                
+                {/* Mass sets the kinetic energy as well as how strongly drag slows the ball */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">
+                    Mass: {drag.mass.toFixed(2)} kg
+                  </label>
+                  <input 
+                    type="range" 
+                    min="0.01" 
+                    max="2" 
+                    step="0.01"
+                    value={drag.mass} 
+                    onChange={(e) => updateDrag({ mass: parseFloat(e.target.value) })} 
+                    className="w-full accent-cyan-400" 
+                    disabled={isRunning} 
+                  />
+                </div>
+                
+                <div className="bg-gray-700/50 p-3 rounded-lg space-y-3">
+                  <label className="flex items-center gap-2 text-gray-300 cursor-pointer">
+                    <input 
+                      type="checkbox" 
+                      checked={drag.enabled} 
+                      onChange={(e) => updateDrag({ enabled: e.target.checked })} 
+                      className="w-4 h-4 accent-cyan-500" 
+                      disabled={isRunning}
+                    />
+                    Air Resistance (quadratic drag)
+                  </label>
+                  
+                  {drag.enabled && (
+                    <>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-300 mb-2">
+                          Drag Coefficient (Cd): {drag.dragCoefficient.toFixed(2)}
+                        </label>
+                        <input 
+                          type="range" 
+                          min="0.1" 
+                          max="1.5" 
+                          step="0.01"
+                          value={drag.dragCoefficient} 
+                          onChange={(e) => updateDrag({ dragCoefficient: parseFloat(e.target.value) })} 
+                          className="w-full accent-cyan-400" 
+                          disabled={isRunning} 
+                        />
+                      </div>
+                      
+                      <div>
+                        <label className="block text-sm font-medium text-gray-300 mb-2">
+                          Cross-sectional Area: {(drag.area * 10000).toFixed(0)} cm²
+                        </label>
+                        <input 
+                          type="range" 
+                          min="1" 
+                          max="500" 
+                          step="1"
+                          value={Math.round(drag.area * 10000)} 
+                          onChange={(e) => updateDrag({ area: parseFloat(e.target.value) / 10000 })} 
+                          className="w-full accent-cyan-400" 
+                          disabled={isRunning} 
+                        />
+                      </div>
+                      
+                      <div>
+                        <label className="block text-sm font-medium text-gray-300 mb-2">
+                          Air Density: {drag.airDensity.toFixed(3)} kg/m³
+                        </label>
+                        <input 
+                          type="range" 
+                          min="0" 
+                          max="1.5" 
+                          step="0.005"
+                          value={drag.airDensity} 
+                          onChange={(e) => updateDrag({ airDensity: parseFloat(e.target.value) })} 
+                          className="w-full accent-cyan-400" 
+                          disabled={isRunning} 
+                        />
+                      </div>
+                      
+                      <p className="text-xs text-gray-400">
+                        Terminal velocity: {Number.isFinite(getTerminalVelocity(drag, gravity)) ? `${getTerminalVelocity(drag, gravity).toFixed(1)} m/s` : 'none (no air)'}
+                      </p>
+                    </>
+                  )}
+                </div>
+                
+                <div className="bg-gray-700/50 p-3 rounded-lg space-y-3">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-300 mb-2">
+                      Wind Speed: {wind.speed} m/s
+                    </label>
+                    <input 
+                      type="range" 
+                      min="0" 
+                      max="20" 
+                      step="0.5"
+                      value={wind.speed} 
+                      onChange={(e) => updateWind({ speed: parseFloat(e.target.value) })} 
+                      className="w-full accent-cyan-400" 
+                      disabled={isRunning} 
+                    />
+                  </div>
+                  
+                  {wind.speed > 0 && (
+                    <>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-300 mb-2">
+                          Wind Direction: {wind.direction}° {wind.direction === 0 ? '(tailwind)' : wind.direction === 180 ? '(headwind)' : ''}
+                        </label>
+                        <input 
+                          type="range" 
+                          min="0" 
+                          max="355" 
+                          step="5"
+                          value={wind.direction} 
+                          onChange={(e) => updateWind({ direction: parseFloat(e.target.value) })} 
+                          className="w-full accent-cyan-400" 
+                          disabled={isRunning} 
+                        />
+                      </div>
+                      
+                      <label className="flex items-center gap-2 text-gray-300 cursor-pointer">
+                        <input 
+                          type="checkbox" 
+                          checked={wind.gusts} 
+                          onChange={(e) => updateWind({ gusts: e.target.checked })} 
+                          className="w-4 h-4 accent-cyan-500" 
+                          disabled={isRunning}
+                        />
+                        Gusts
+                      </label>
+                      
+                      {wind.gusts && (
+                        <div>
+                          <label className="block text-sm font-medium text-gray-300 mb-2">
+                            Gust Strength: ±{Math.round(wind.gustStrength * 100)}%
+                          </label>
+                          <input 
+                            type="range" 
+                            min="0" 
+                            max="1" 
+                            step="0.05"
+                            value={wind.gustStrength} 
+                            onChange={(e) => updateWind({ gustStrength: parseFloat(e.target.value) })} 
+                            className="w-full accent-cyan-400" 
+                            disabled={isRunning} 
+                          />
+                          <button
+                            onClick={() => updateWind({ gustSeed: wind.gustSeed + 1 })}
+                            className="mt-2 w-full py-1 rounded-md text-sm bg-gray-600 hover:bg-gray-500 text-white"
+                            disabled={isRunning}
+                          >
+                            New Gust Pattern
+                          </button>
+                        </div>
+                      )}
+                      
+                      {!drag.enabled && (
+                        <p className="text-xs text-yellow-300">Wind pushes on the projectile through air resistance - turn on air resistance to feel it.</p>
+                      )}
+                    </>
+                  )}
+                </div>
+                
+                {isChallenge || activeScenario ? (
+                  <p className="text-xs text-gray-400">
+                    {isChallenge
+                      ? 'Challenges are played on Earth from flat ground without bounce; gravity, terrain and bounce settings return when you exit.'
+                      : 'The scenario sets its own ground and launch height without bounce; terrain and bounce settings return when you exit.'}
+                  </p>
+                ) : (
+                <div className="bg-gray-700/50 p-3 rounded-lg space-y-3">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-300 mb-2">Terrain</label>
+                    <select
+                      value={terrain.kind}
+                      onChange={(e) => updateTerrain({ kind: e.target.value as TerrainKind })}
+                      className="w-full p-2 bg-gray-900 text-white border border-gray-600 rounded-md"
+                      disabled={isRunning}
+                    >
+                      <option value="flat">Flat ground</option>
+                      <option value="cliff">Launch from a cliff</option>
+                      <option value="platform">Raised landing platform</option>
+                      <option value="incline">Inclined ground</option>
+                    </select>
+                  </div>
+                  
+                  <div>
+                    <label className="block text-sm font-medium text-gray-300 mb-2">
+                      {terrain.kind === 'cliff' ? 'Cliff Height' : 'Launch Height'}: {terrain.launchHeight} m
+                    </label>
+                    <input 
+                      type="range" 
+                      min="0" 
+                      max="30" 
+                      step="0.5"
+                      value={terrain.launchHeight} 
+                      onChange={(e) => updateTerrain({ launchHeight: parseFloat(e.target.value) })} 
+                      className="w-full accent-cyan-400" 
+                      disabled={isRunning} 
+                    />
+                  </div>
+                  
+                  {terrain.kind === 'cliff' && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-300 mb-2">
+                        Distance to Cliff Edge: {terrain.cliffEdge} m
+                      </label>
+                      <input 
+                        type="range" 
+                        min="1" 
+                        max="30" 
+                        step="0.5"
+                        value={terrain.cliffEdge} 
+                        onChange={(e) => updateTerrain({ cliffEdge: parseFloat(e.target.value) })} 
+                        className="w-full accent-cyan-400" 
+                        disabled={isRunning} 
+                      />
+                    </div>
+                  )}
+                  
+                  {terrain.kind === 'platform' && (
+                    <>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-300 mb-2">
+                          Platform Distance: {terrain.platformStart} m
+                        </label>
+                        <input 
+                          type="range" 
+                          min="5" 
+                          max="100" 
+                          step="0.5"
+                          value={terrain.platformStart} 
+                          onChange={(e) => updateTerrain({ platformStart: parseFloat(e.target.value) })} 
+                          className="w-full accent-cyan-400" 
+                          disabled={isRunning} 
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-300 mb-2">
+                          Platform Width: {terrain.platformWidth} m
+                        </label>
+                        <input 
+                          type="range" 
+                          min="2" 
+                          max="40" 
+                          step="0.5"
+                          value={terrain.platformWidth} 
+                          onChange={(e) => updateTerrain({ platformWidth: parseFloat(e.target.value) })} 
+                          className="w-full accent-cyan-400" 
+                          disabled={isRunning} 
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-300 mb-2">
+                          Platform Height: {terrain.platformHeight} m
+                        </label>
+                        <input 
+                          type="range" 
+                          min="0.5" 
+                          max="30" 
+                          step="0.5"
+                          value={terrain.platformHeight} 
+                          onChange={(e) => updateTerrain({ platformHeight: parseFloat(e.target.value) })} 
+                          className="w-full accent-cyan-400" 
+                          disabled={isRunning} 
+                        />
+                      </div>
+                    </>
+                  )}
+                  
+                  {terrain.kind === 'incline' && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-300 mb-2">
+                        Ground Slope: {terrain.inclineAngle}° {terrain.inclineAngle > 0 ? '(uphill)' : terrain.inclineAngle < 0 ? '(downhill)' : ''}
+                      </label>
+                      <input 
+                        type="range" 
+                        min="-30" 
+                        max="30" 
+                        step="1"
+                        value={terrain.inclineAngle} 
+                        onChange={(e) => updateTerrain({ inclineAngle: parseFloat(e.target.value) })} 
+                        className="w-full accent-cyan-400" 
+                        disabled={isRunning} 
+                      />
+                    </div>
+                  )}
+                </div>
+                )}
+
+                {!isChallenge && !activeScenario && (
+                <div className="bg-gray-700/50 p-3 rounded-lg space-y-3">
+                  <label className="flex items-center gap-2 text-gray-300 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={bounce.enabled}
+                      onChange={(e) => updateBounce({ enabled: e.target.checked })}
+                      className="w-4 h-4 accent-cyan-500"
+                      disabled={isRunning}
+                    />
+                    Bounce off the ground and obstacles
+                  </label>
+
+                  {bounce.enabled && (
+                    <>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-300 mb-2">
+                          Coefficient of Restitution (e): {bounce.restitution.toFixed(2)}
+                        </label>
+                        <input
+                          type="range"
+                          min="0"
+                          max="0.95"
+                          step="0.05"
+                          value={bounce.restitution}
+                          onChange={(e) => updateBounce({ restitution: parseFloat(e.target.value) })}
+                          className="w-full accent-cyan-400"
+                          disabled={isRunning}
+                        />
+                      </div>
+
+                      <div>
+                        <label className="block text-sm font-medium text-gray-300 mb-2">
+                          Friction (μ): {bounce.friction.toFixed(2)}
+                        </label>
+                        <input
+                          type="range"
+                          min="0.05"
+                          max="1"
+                          step="0.05"
+                          value={bounce.friction}
+                          onChange={(e) => updateBounce({ friction: parseFloat(e.target.value) })}
+                          className="w-full accent-cyan-400"
+                          disabled={isRunning}
+                        />
+                      </div>
+
+                      <p className="text-xs text-gray-400">
+                        Each impact keeps e of the speed into the surface and friction slows the ball along it; once the bounces die away it rolls to a stop.
+                      </p>
+                    </>
+                  )}
+                </div>
+                )}
+                
                 <button 
                   onClick={() => setAutoRotate(!autoRotate)} 
                   className={`w-full py-2 rounded-md font-semibold transition ${
@@ -1624,14 +2829,247 @@ export default function ProjectileMotionSimulator({
                   Show Trail
                 </label>
                 
+            {!isChallenge && !activeScenario && (
             <div className="bg-gray-700/50 p-3 rounded-lg">
               <h3 className="text-sm font-semibold text-cyan-300 mb-2">Predicted Values</h3>
+                  {dragTrajectory ? (
+                    <table className="w-full text-xs text-gray-300">
+                      <thead>
+                        <tr className="text-gray-400">
+                          <th className="text-left font-normal"></th>
+                          <th className="text-right font-normal">Vacuum</th>
+                          <th className="text-right font-normal">With Drag</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        <tr>
+                          <td>Max Height</td>
+                          <td className="text-right">{idealTrajectory.maxHeight.toFixed(2)} m</td>
+                          <td className="text-right">{dragTrajectory.maxHeight.toFixed(2)} m</td>
+                        </tr>
+                        <tr>
+                          <td>Apex Distance</td>
+                          <td className="text-right">{idealTrajectory.apexDistance.toFixed(2)} m</td>
+                          <td className="text-right">{dragTrajectory.apexDistance.toFixed(2)} m</td>
+                        </tr>
+                        <tr>
+                          <td>Sideways Drift</td>
+                          <td className="text-right">{idealTrajectory.landingZ.toFixed(2)} m</td>
+                          <td className="text-right">{dragTrajectory.landingZ.toFixed(2)} m</td>
+                        </tr>
+                        <tr>
+                          <td>Range</td>
+                          <td className="text-right">{formatRange(idealTrajectory)}</td>
+                          <td className="text-right">{formatRange(dragTrajectory)}</td>
+                        </tr>
+                        <tr>
+                          <td>Flight Time</td>
+                          <td className="text-right">{idealTrajectory.timeOfFlight.toFixed(2)} s</td>
+                          <td className="text-right">{dragTrajectory.timeOfFlight.toFixed(2)} s</td>
+                        </tr>
+                        <tr>
+                          <td>Impact Speed</td>
+                          <td className="text-right">{idealTrajectory.impactSpeed.toFixed(2)} m/s</td>
+                          <td className="text-right">{dragTrajectory.impactSpeed.toFixed(2)} m/s</td>
+                        </tr>
+                        <tr>
+                          <td>Impact Angle</td>
+                          <td className="text-right">{idealTrajectory.impactAngle.toFixed(1)}°</td>
+                          <td className="text-right">{dragTrajectory.impactAngle.toFixed(1)}°</td>
+                        </tr>
+                      </tbody>
+                    </table>
+                  ) : (
                   <div className="text-xs space-y-1 text-gray-300">
                 <p>Max Height: {maxHeight.toFixed(2)} m</p>
-                <p>Range: {range.toFixed(2)} m</p>
+                <p>Range: {formatRange(trajectory)}</p>
+                {Math.abs(trajectory.landingZ) >= 0.01 && <p>Landing Point: x = {trajectory.landingX.toFixed(2)} m, z = {trajectory.landingZ.toFixed(2)} m</p>}
                 <p>Flight Time: {timeOfFlight.toFixed(2)} s</p>
+                <p>Impact: {trajectory.impactSpeed.toFixed(2)} m/s at {trajectory.impactAngle.toFixed(1)}° below horizontal</p>
+              </div>
+                  )}
+                  {trajectory.hitWall && (
+                    <p className="text-xs text-orange-300 mt-2">The projectile strikes the side of the platform rather than landing on top.</p>
+                  )}
+                  {activeBounce && (
+                    <p className="text-xs text-gray-400 mt-2">
+                      {trajectory.runaway
+                        ? `Bounces ${trajectory.impacts.length} times and never comes to rest; it is followed until it ${trajectory.runaway === 'downhill' ? 'is sliding away downhill' : 'leaves the ground'}.`
+                        : `Bounces ${trajectory.impacts.length} times; range and flight time run to where it comes to rest, the impact values are for the first impact.`}
+                    </p>
+                  )}
+            </div>
+            )}
+            
+            {earthFlight && (
+            <div className="bg-gray-700/50 p-3 rounded-lg">
+              <h3 className="text-sm font-semibold text-cyan-300 mb-2">Same Launch on Other Bodies</h3>
+              <table className="w-full text-xs text-gray-300">
+                <thead>
+                  <tr className="text-gray-400">
+                    <th className="text-left font-normal">Body</th>
+                    <th className="text-right font-normal">g</th>
+                    <th className="text-right font-normal">Range</th>
+                    <th className="text-right font-normal">Height</th>
+                    <th className="text-right font-normal">Time</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {comparisonFlights.map(({ body, trajectory: flight }) => (
+                    <tr key={body.id}>
+                      <td style={{ color: toCssColor(body.color) }}>● {body.name}</td>
+                      <td className="text-right">{body.gravity}</td>
+                      <td className="text-right">
+                        {formatRange(flight, 1)}
+                        {!flight.runaway && !earthFlight.trajectory.runaway && (
+                          <span className="text-gray-500"> ×{(flight.range / earthFlight.trajectory.range).toFixed(2)}</span>
+                        )}
+                      </td>
+                      <td className="text-right">
+                        {flight.maxHeight.toFixed(1)} m
+                        <span className="text-gray-500"> ×{(flight.maxHeight / earthFlight.trajectory.maxHeight).toFixed(2)}</span>
+                      </td>
+                      <td className="text-right">{flight.timeOfFlight.toFixed(2)} s</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="text-xs text-gray-400 mt-2">
+                Vacuum flights with the same v and θ; ratios are to Earth. From level ground range and height both scale as 1/g.
+              </p>
+            </div>
+            )}
+            
+            <div className="bg-gray-700/50 p-3 rounded-lg space-y-3">
+              <h3 className="text-sm font-semibold text-cyan-300">Launch Runs</h3>
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">
+                  Ghost Trails Kept: {maxRuns}
+                </label>
+                <input 
+                  type="range" 
+                  min="1" 
+                  max={MAX_RUNS_LIMIT} 
+                  value={maxRuns} 
+                  onChange={(e) => changeMaxRuns(parseInt(e.target.value))} 
+                  className="w-full accent-cyan-400" 
+                  disabled={isRunning} 
+                />
+              </div>
+              <div className="flex gap-2">
+                {!isChallenge && (
+                  <button
+                    onClick={fireFan}
+                    className="flex-1 bg-cyan-600 hover:bg-cyan-700 text-white text-sm px-3 py-2 rounded-md"
+                    disabled={isRunning}
+                  >
+                    Fire Fan ({FAN_ANGLES[0]}°–{FAN_ANGLES[FAN_ANGLES.length - 1]}°)
+                  </button>
+                )}
+                <button
+                  onClick={() => setRuns([])}
+                  className="bg-gray-600 hover:bg-gray-500 text-white text-sm px-3 py-2 rounded-md"
+                  disabled={isRunning || runs.length === 0}
+                >
+                  Clear
+                </button>
               </div>
+              {runs.length > 0 ? (
+                <table className="w-full text-xs text-gray-300">
+                  <thead>
+                    <tr className="text-gray-400">
+                      <th className="text-left font-normal">Run</th>
+                      <th className="text-right font-normal">v</th>
+                      <th className="text-right font-normal">θ</th>
+                      <th className="text-right font-normal">Range</th>
+                      <th className="text-right font-normal">Apex</th>
+                      <th className="text-right font-normal">Time</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {runs.map(run => (
+                      <tr key={run.id}>
+                        <td style={{ color: toCssColor(run.color) }}>● {run.id}</td>
+                        <td className="text-right">{run.velocity} m/s</td>
+                        <td className="text-right">{run.angle}°</td>
+                        <td className="text-right">{formatRange(run.trajectory)}</td>
+                        <td className="text-right">{run.trajectory.maxHeight.toFixed(2)} m</td>
+                        <td className="text-right">{run.trajectory.timeOfFlight.toFixed(2)} s</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              ) : (
+                <p className="text-xs text-gray-400">Finished launches are kept here and as faint trails in the scene.</p>
+              )}
+              {!isChallenge && (
+                <p className="text-xs text-gray-400">
+                  The fan fires every {FAN_ANGLES[1] - FAN_ANGLES[0]}° at the current speed. Compare the ranges of θ and 90° − θ.
+                </p>
+              )}
             </div>
+            
+                <div className="bg-gray-700/50 p-3 rounded-lg space-y-2">
+                  <h3 className="text-sm font-semibold text-green-300">Classic Scenarios</h3>
+                  <div className="grid grid-cols-2 gap-2">
+                    {SCENARIOS.map(scenario => (
+                      <button
+                        key={scenario.id}
+                        onClick={() => loadScenario(scenario.id)}
+                        className={`text-white text-xs px-2 py-2 rounded-md ${
+                          scenarioId === scenario.id ? 'bg-green-600' : 'bg-gray-600 hover:bg-gray-500'
+                        }`}
+                        disabled={isRunning}
+                      >
+                        {scenario.name}
+                      </button>
+                    ))}
+                  </div>
+                  {activeScenario && (
+                    <button
+                      onClick={exitScenario}
+                      className="w-full bg-gray-600 hover:bg-gray-500 text-white text-sm px-3 py-2 rounded-md"
+                      disabled={isRunning}
+                    >
+                      Exit Scenario
+                    </button>
+                  )}
+                </div>
+                
+                <div className="bg-gray-700/50 p-3 rounded-lg">
+                  <h3 className="text-sm font-semibold text-yellow-300 mb-2">Hit-the-Target Challenge</h3>
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      value={challengeSeedInput}
+                      onChange={(e) => setChallengeSeedInput(e.target.value)}
+                      placeholder="Seed (blank = random)"
+                      className="flex-1 min-w-0 p-2 bg-gray-900 text-white text-sm border border-yellow-600 border-opacity-50 rounded-md focus:outline-none"
+                      disabled={isRunning}
+                    />
+                    <button
+                      onClick={() => startChallenge(challengeSeedInput)}
+                      className="bg-yellow-600 hover:bg-yellow-700 text-white text-sm px-3 py-2 rounded-md"
+                      disabled={isRunning}
+                    >
+                      {isChallenge ? 'New' : 'Start'}
+                    </button>
+                    {isChallenge && (
+                      <button
+                        onClick={exitChallenge}
+                        className="bg-gray-600 hover:bg-gray-500 text-white text-sm px-3 py-2 rounded-md"
+                        disabled={isRunning}
+                      >
+                        Exit
+                      </button>
+                    )}
+                  </div>
+                  <p className="text-xs text-gray-400 mt-2">
+                    {isChallenge
+                      ? <>Share seed <strong className="text-yellow-300">{challenge!.seed}</strong> to give others the same targets.</>
+                      : `Hit ${CHALLENGE_TARGET_COUNT} targets with ${SHOTS_PER_TARGET} shots each; the same seed always gives the same targets.`}
+                  </p>
+                </div>
               </div>
             </div>
           </div>
@@ -1667,6 +3105,14 @@ export default function ProjectileMotionSimulator({
                     <li>• Launch button starts the projectile motion</li>
                     <li>• Adjust velocity and angle in Config</li>
                     <li>• Watch the trail to visualize the path</li>
+                    <li>• Turn on air resistance to compare with the dashed vacuum path</li>
+                    <li>• Launch from a height, off a cliff or onto a platform or slope in Config</li>
+                    <li>• Start a challenge in Config to aim at targets with a limited number of shots</li>
+                    <li>• Set a launch azimuth or crosswind to send the projectile out of the x-y plane</li>
+                    <li>• Choose the Moon, Mars, Jupiter or a custom gravity, or compare one launch on every body</li>
+                    <li>• Earlier launches stay as faint trails; fire a fan of angles to compare ranges in one go</li>
+                    <li>• Load a classic scenario (monkey and hunter, table, plane drop, free throw) from Config</li>
+                    <li>• Turn on bounce to see the ball rebound until it rests, and the kinetic energy each impact takes</li>
                     <li>• Monitor real-time values in Status bar</li>
                   </ul>
                 </div>
@@ -1675,7 +3121,7 @@ export default function ProjectileMotionSimulator({
                   <h3 className="font-bold text-yellow-100 mb-2">Controls:</h3>
                   <ul className="space-y-1">
                     <li>• Config: Adjust simulation parameters</li>
-                    <li>• Chart: View velocity and displacement graphs</li>
+                    <li>• Chart: View velocity, displacement, energy, momentum and trajectory graphs</li>
                     <li>• Status: Monitor current values</li>
                   </ul>
                 </div>
@@ -1727,9 +3173,11 @@ export default function ProjectileMotionSimulator({
               <div className="flex-1 min-h-0">
                 {(() => {
                   const currentChart = charts[currentChartIndex];
+                  if (currentChart.series) return renderSeriesChart(currentChart, false);
+                  if (currentChart.name === 'Trajectory') return renderPathChart(false);
                   if (currentChart.name === 'Displacement') {
                     // Displacement chart - show both X and Y
-                    const chartData = displacementData.map(d => ({ time: d.time, x: d.x, y: d.y }));
+                    const chartData = displacementData.map(d => ({ time: d.time, x: d.x, y: d.y, z: d.z }));
                     const maxTime = getMaxTime(chartData);
                     const interval = getTimeInterval(maxTime);
                     const timeTicks = generateTimeTicks(maxTime, interval);
@@ -1779,6 +3227,15 @@ export default function ProjectileMotionSimulator({
                             name="Vertical (m)"
                             isAnimationActive={!isRunning}
                           />
+                          <Line
+                            type="monotone"
+                            dataKey="z"
+                            stroke="#22c55e"
+                            strokeWidth={2}
+                            dot={false}
+                            name="Sideways z (m)"
+                            isAnimationActive={!isRunning}
+                          />
                         </LineChart>
                       </ResponsiveContainer>
                     ) : (
@@ -1820,7 +3277,7 @@ export default function ProjectileMotionSimulator({
                             labelStyle={{ color: '#fff' }}
                           />
                           <Line
-                            type="monotone"
+                            type={chartLineType}
                             dataKey="velocity"
                             stroke={currentChart.color}
                             strokeWidth={3}
@@ -1842,6 +3299,7 @@ export default function ProjectileMotionSimulator({
               {/* Chart Description */}
               <div className="mt-4 bg-gray-800 bg-opacity-60 p-3 rounded-lg border border-gray-600">
                 <p className="text-xs text-gray-300">{charts[currentChartIndex].description}</p>
+                {charts[currentChartIndex].name === 'Energy' && renderImpactLosses()}
               </div>
             </div>
           </div>
@@ -1911,9 +3369,11 @@ export default function ProjectileMotionSimulator({
               <div className="h-64 mb-4">
                 {(() => {
                   const currentChart = charts[currentChartIndex];
+                  if (currentChart.series) return renderSeriesChart(currentChart, true);
+                  if (currentChart.name === 'Trajectory') return renderPathChart(true);
                   if (currentChart.name === 'Displacement') {
                     // Displacement chart - show both X and Y
-                    const chartData = displacementData.map(d => ({ time: d.time, x: d.x, y: d.y }));
+                    const chartData = displacementData.map(d => ({ time: d.time, x: d.x, y: d.y, z: d.z }));
                     const maxTime = getMaxTime(chartData);
                     const interval = getTimeInterval(maxTime);
                     const timeTicks = generateTimeTicks(maxTime, interval);
@@ -1956,6 +3416,15 @@ export default function ProjectileMotionSimulator({
                             name="Vertical (m)"
                             isAnimationActive={!isRunning}
                           />
+                          <Line
+                            type="monotone"
+                            dataKey="z"
+                            stroke="#22c55e"
+                            strokeWidth={2}
+                            dot={false}
+                            name="Sideways z (m)"
+                            isAnimationActive={!isRunning}
+                          />
                         </LineChart>
                       </ResponsiveContainer>
                     ) : (
@@ -1997,7 +3466,7 @@ export default function ProjectileMotionSimulator({
                             labelStyle={{ color: '#fff' }}
                           />
                           <Line
-                            type="monotone"
+                            type={chartLineType}
                             dataKey="velocity"
                             stroke={currentChart.color}
                             strokeWidth={3}
@@ -2019,6 +3488,7 @@ export default function ProjectileMotionSimulator({
               {/* Chart Description */}
               <div className="bg-gray-800 bg-opacity-60 p-3 rounded-lg border border-gray-600">
                 <p className="text-xs text-gray-300">{charts[currentChartIndex].description}</p>
+                {charts[currentChartIndex].name === 'Energy' && renderImpactLosses()}
               </div>
             </div>
           </>
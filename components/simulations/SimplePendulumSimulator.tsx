@@ -1,7 +1,7 @@
 import React, { useEffect, useRef, useState, useMemo, useCallback } from 'react';
 import * as THREE from 'three';
 import { Play, Pause, RotateCcw, Target, Info, Settings, BarChart3, ChevronLeft, ChevronRight, Camera } from 'lucide-react';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceDot } from 'recharts';
 import { 
   getDefaultCameraPosition, 
   getSavedCameraPosition,
@@ -9,6 +9,15 @@ import {
   clearCameraPositionsCache
 } from '../../services/cameraPositionService';
 import type { CameraPosition } from '../../types/cameraPosition';
+import type { PendulumParams, PendulumState } from '../../types/pendulum';
+import {
+  getAngularAcceleration,
+  getExactPeriod,
+  getPeriodCurve,
+  getSmallAnglePeriod,
+  getSmallAngleState,
+  stepPendulum
+} from './pendulum/pendulumPhysics';
 import CameraPositionAdmin from '../admin/CameraPositionAdmin';
 
 const PIVOT_HEIGHT = 2.5; // Fixed height of the pivot point in meters
@@ -17,6 +26,7 @@ const PIVOT_HEIGHT = 2.5; // Fixed height of the pivot point in meters
 interface AngleDataPoint {
   time: number;
   angle: number;
+  smallAngle: number; // Small-angle prediction at the same time (°)
 }
 
 interface DisplacementDataPoint {
@@ -63,7 +73,9 @@ const persistentThreeJS = {
   bob: null as THREE.Mesh | null,
   stringLine: null as THREE.Line | null,
   ceiling: null as THREE.Mesh | null,
+  ghostBob: null as THREE.Mesh | null, // Follows the small-angle prediction in the overlay mode
   simulationTime: 0,
+  swing: { theta: (20 * Math.PI) / 180, omega: 0 } as PendulumState, // Integrated state of the bob
   // Camera state persistence
   cameraAngle: { theta: 0, phi: Math.PI / 3 },
   cameraDistance: 5,
@@ -88,6 +100,7 @@ const persistentState = {
   phaseSpaceVelocityData: [] as PhaseSpaceVelocityPoint[],
   phaseSpaceAccelerationData: [] as PhaseSpaceAccelerationPoint[],
   chartView: 'time' as 'time' | 'displacement',
+  showSmallAngle: false,
   showConfig: false,
   showChart: false,
   showAdminCamera: false,
@@ -98,6 +111,11 @@ const persistentState = {
   currentChartIndex: 0,
 };
 
+// Move the small-angle ghost bob to an angle, when it is in the scene
+const placeGhostBob = (theta: number, length: number) => {
+  persistentThreeJS.ghostBob?.position.set(length * Math.sin(theta), PIVOT_HEIGHT - length * Math.cos(theta), 0);
+};
+
 // Props interface for SimplePendulumSimulator
 interface SimplePendulumSimulatorProps {
   isEmbedded?: boolean;
@@ -179,6 +197,7 @@ export default function SimplePendulumSimulator({
   const [initialAngle, setInitialAngle] = useState(() => persistentState.initialAngle);
   const [gravity, setGravity] = useState(() => persistentState.gravity);
   const [airResistance, setAirResistance] = useState(() => persistentState.airResistance);
+  const [showSmallAngle, setShowSmallAngle] = useState(() => persistentState.showSmallAngle);
   
   // Use refs to store current physics parameters to avoid closure issues
   // This ensures the simulation loop always uses the latest values, even when switching views
@@ -360,6 +379,10 @@ export default function SimplePendulumSimulator({
     persistentState.airResistance = airResistance;
   }, [airResistance]);
   
+  useEffect(() => {
+    persistentState.showSmallAngle = showSmallAngle;
+  }, [showSmallAngle]);
+  
   useEffect(() => {
     persistentState.isRunning = isRunning;
   }, [isRunning]);
@@ -410,12 +433,12 @@ export default function SimplePendulumSimulator({
   
   // Sync camera refs to persistent storage (will be called from event handlers)
 
-  // Derived physics values
-  const naturalOmega = Math.sqrt(gravity / length); // Natural Angular frequency
-  const isUnderdamped = naturalOmega * naturalOmega > airResistance * airResistance;
-  const dampedOmega = isUnderdamped ? Math.sqrt(naturalOmega * naturalOmega - airResistance * airResistance) : 0;
-  const period = isUnderdamped ? (2 * Math.PI / dampedOmega) : Infinity;
+  // Derived physics values; the period formula holds for small angles, the exact period grows with the release angle
+  const pendulumParams = useMemo<PendulumParams>(() => ({ length, gravity, damping: airResistance }), [length, gravity, airResistance]);
+  const period = getSmallAnglePeriod(pendulumParams);
   const initialAngleRad = initialAngle * Math.PI / 180;
+  const exactPeriod = getExactPeriod(initialAngleRad, pendulumParams);
+  const periodCurve = useMemo(() => getPeriodCurve(pendulumParams), [pendulumParams]);
 
   // Setup the Three.js scene
   useEffect(() => {
@@ -1318,6 +1341,8 @@ export default function SimplePendulumSimulator({
     persistentState.phaseSpaceVelocityData = [];
     persistentState.phaseSpaceAccelerationData = [];
     persistentState.simulationData = [];
+    persistentThreeJS.swing = { theta: initialAngle * Math.PI / 180, omega: 0 };
+    placeGhostBob(initialAngle * Math.PI / 180, length);
     
     // Reset pendulum position to initial state
     const { bob, pivot, stringLine } = persistentThreeJS;
@@ -1399,6 +1424,8 @@ export default function SimplePendulumSimulator({
     setCurrentVelocity(0);
     setTimeElapsed(0);
     persistentThreeJS.simulationTime = 0;
+    persistentThreeJS.swing = { theta: angleRad, omega: 0 };
+    placeGhostBob(angleRad, length);
     
     // Clear all chart data when parameters change
     setAngleData([]);
@@ -1421,6 +1448,27 @@ export default function SimplePendulumSimulator({
   }, [length, initialAngle, gravity, isRunning, airResistance]);
 
 
+  // Translucent bob that swings with the small-angle prediction in the overlay mode
+  useEffect(() => {
+    const { scene } = persistentThreeJS;
+    if (!sceneReady || !scene) return;
+    if (showSmallAngle && !persistentThreeJS.ghostBob) {
+      const ghostBob = new THREE.Mesh(
+        new THREE.SphereGeometry(0.1),
+        new THREE.MeshStandardMaterial({ color: 0xf6ad55, roughness: 0.3, transparent: true, opacity: 0.45 })
+      );
+      scene.add(ghostBob);
+      persistentThreeJS.ghostBob = ghostBob;
+      placeGhostBob(getSmallAngleState(initialAngleRad, pendulumParams, persistentThreeJS.simulationTime).theta, length);
+    } else if (!showSmallAngle && persistentThreeJS.ghostBob) {
+      const { ghostBob } = persistentThreeJS;
+      scene.remove(ghostBob);
+      ghostBob.geometry.dispose();
+      (ghostBob.material as THREE.Material).dispose();
+      persistentThreeJS.ghostBob = null;
+    }
+  }, [showSmallAngle, sceneReady]);
+
   // Simulation run loop with chart data collection
   useEffect(() => {
     if (!isRunning) {
@@ -1432,8 +1480,9 @@ export default function SimplePendulumSimulator({
     // If switching views while running, keep the current time from persistent storage
     const isFreshStart = persistentThreeJS.simulationTime < 0.02 && !persistentState.isRunning;
     if (isFreshStart) {
-      // Fresh start - reset time and clear data
+      // Fresh start - reset time, release the bob from rest and clear data
       persistentThreeJS.simulationTime = 0;
+      persistentThreeJS.swing = { theta: initialAngleRef.current * Math.PI / 180, omega: 0 };
       setTimeElapsed(0);
       
       // Clear chart data when starting fresh
@@ -1460,22 +1509,16 @@ export default function SimplePendulumSimulator({
       const currentGravity = gravityRef.current;
       const currentAirResistance = airResistanceRef.current;
       
-      const naturalOmega = Math.sqrt(currentGravity / currentLength);
-      const isUnderdampedCalc = naturalOmega * naturalOmega > currentAirResistance * currentAirResistance;
-      const dampedOmegaCalc = isUnderdampedCalc ? Math.sqrt(naturalOmega * naturalOmega - currentAirResistance * currentAirResistance) : 0;
+      const params: PendulumParams = { length: currentLength, gravity: currentGravity, damping: currentAirResistance };
       const initialAngleRadCalc = currentInitialAngle * Math.PI / 180;
 
-      let angleRad = 0;
-      let angularVelocity = 0;
-
-      if (isUnderdampedCalc && dampedOmegaCalc > 0) {
-        angleRad = initialAngleRadCalc * Math.exp(-currentAirResistance * t) * Math.cos(dampedOmegaCalc * t);
-        angularVelocity = -initialAngleRadCalc * Math.exp(-currentAirResistance * t) * 
-            (currentAirResistance * Math.cos(dampedOmegaCalc * t) + dampedOmegaCalc * Math.sin(dampedOmegaCalc * t));
-      } else {
-        setIsRunning(false);
-        return;
-      }
+      // θ'' = −(g/L) sin θ − bθ' is integrated from the last state, so large angles swing with their true period
+      const swing = stepPendulum(persistentThreeJS.swing, params, 0.016);
+      persistentThreeJS.swing = swing;
+      const angleRad = swing.theta;
+      const angularVelocity = swing.omega;
+      const smallAngleRad = getSmallAngleState(initialAngleRadCalc, params, t).theta;
+      placeGhostBob(smallAngleRad, currentLength);
       
       const { bob, pivot, stringLine } = persistentThreeJS;
       if (!bob || !pivot || !stringLine) return;
@@ -1488,7 +1531,7 @@ export default function SimplePendulumSimulator({
       stringLine.geometry.attributes.position.needsUpdate = true;
 
       const tangentialVelocity = angularVelocity * currentLength;
-      const tangentialAcceleration = -currentGravity * Math.sin(angleRad) - currentAirResistance * tangentialVelocity;
+      const tangentialAcceleration = getAngularAcceleration(swing, params) * currentLength;
       
       const angleDeg = angleRad * 180 / Math.PI;
       
@@ -1498,7 +1541,7 @@ export default function SimplePendulumSimulator({
       setCurrentVelocity(tangentialVelocity);
       
       // Collect chart data for Recharts
-      setAngleData(prev => [...prev, { time: t, angle: angleDeg }]);
+      setAngleData(prev => [...prev, { time: t, angle: angleDeg, smallAngle: smallAngleRad * 180 / Math.PI }]);
       setDisplacementData(prev => [...prev, { time: t, displacement: x }]);
       setVelocityData(prev => [...prev, { time: t, velocity: tangentialVelocity }]);
       setAccelerationData(prev => [...prev, { time: t, acceleration: tangentialAcceleration }]);
@@ -1530,12 +1573,17 @@ export default function SimplePendulumSimulator({
       data: angleData, 
       color: '#38b2ac', 
       unit: '°', 
-      description: 'Shows how the pendulum angle changes over time',
+      description: showSmallAngle
+        ? 'Shows the pendulum angle over time against the dashed small-angle prediction, which falls further ahead each swing at large release angles'
+        : 'Shows how the pendulum angle changes over time',
       xKey: 'time',
       yKey: 'angle',
       xLabel: 'Time (s)',
       yLabel: 'Angle (°)',
-      isTimeBased: true
+      isTimeBased: true,
+      overlayKey: showSmallAngle ? 'smallAngle' : undefined,
+      overlayName: 'Small-angle',
+      overlayColor: '#f6ad55'
     },
     { 
       name: 'Displacement vs. Time', 
@@ -1596,8 +1644,24 @@ export default function SimplePendulumSimulator({
       xLabel: 'Displacement (m)',
       yLabel: 'Acceleration (m/s²)',
       isTimeBased: false
+    },
+    {
+      name: 'Period vs. Amplitude',
+      data: periodCurve,
+      color: '#fbbf24',
+      unit: 's',
+      description: 'Exact period of the undamped swing against release angle, with the small-angle period 2π√(L/g) dashed; the dot marks the current release angle',
+      xKey: 'amplitude',
+      yKey: 'exact',
+      xLabel: 'Amplitude (°)',
+      yLabel: 'Period (s)',
+      isTimeBased: false,
+      overlayKey: 'smallAngle',
+      overlayName: 'Small-angle',
+      overlayColor: '#9ca3af',
+      marker: { x: initialAngle, y: exactPeriod }
     }
-  ], [angleData, displacementData, velocityData, accelerationData, phaseSpaceVelocityData, phaseSpaceAccelerationData]);
+  ], [angleData, displacementData, velocityData, accelerationData, phaseSpaceVelocityData, phaseSpaceAccelerationData, showSmallAngle, periodCurve, initialAngle, exactPeriod]);
   
   const nextChart = () => {
     setCurrentChartIndex((prev) => (prev + 1) % charts.length);
@@ -1802,7 +1866,7 @@ export default function SimplePendulumSimulator({
                   <input 
                     type="range" 
                     min="5" 
-                    max="45" 
+                    max="170" 
                     value={initialAngle} 
                     onChange={(e) => setInitialAngle(parseFloat(e.target.value))} 
                     className="w-full accent-cyan-400" 
@@ -1847,11 +1911,22 @@ export default function SimplePendulumSimulator({
                   />
                 </div>
                 
+                <label className="flex items-center gap-2 text-gray-300 cursor-pointer">
+                  <input 
+                    type="checkbox" 
+                    checked={showSmallAngle} 
+                    onChange={(e) => setShowSmallAngle(e.target.checked)} 
+                    className="w-4 h-4 accent-cyan-500" 
+                  />
+                  Overlay small-angle prediction
+                </label>
+                
                 <div className="bg-gray-700/50 p-3 rounded-lg">
                   <h3 className="text-sm font-semibold text-cyan-300 mb-2">Calculated Values</h3>
                   <div className="text-xs space-y-1 text-gray-300">
-                    <p>Period (T): {isFinite(period) ? `${period.toFixed(2)} s` : 'N/A'}</p>
+                    <p>Small-angle Period (T): {isFinite(period) ? `${period.toFixed(2)} s` : 'N/A'}</p>
                     <p>Frequency (f): {isFinite(period) && period > 0 ? `${(1/period).toFixed(2)} Hz` : 'N/A'}</p>
+                    <p>Exact Period at {initialAngle.toFixed(0)}° (no air resistance): {exactPeriod.toFixed(2)} s</p>
                   </div>
                 </div>
               </div>
@@ -1890,6 +1965,8 @@ export default function SimplePendulumSimulator({
                     <li>• Adjust parameters in Config panel</li>
                     <li>• Monitor real-time values in Status bar</li>
                     <li>• View charts to see angle, displacement, velocity, and acceleration</li>
+                    <li>• Overlay the small-angle prediction to see it drift from the true swing at large angles</li>
+                    <li>• The Period vs. Amplitude chart shows the true period growing with the release angle</li>
                   </ul>
                 </div>
                 
@@ -1897,7 +1974,7 @@ export default function SimplePendulumSimulator({
                   <h3 className="font-bold text-yellow-100 mb-2">Controls:</h3>
                   <ul className="space-y-1">
                     <li>• Config: Adjust simulation parameters (length, angle, gravity, air resistance)</li>
-                    <li>• Chart: View various graphs (angle, displacement, velocity, acceleration)</li>
+                    <li>• Chart: View various graphs (angle, displacement, velocity, acceleration, period vs. amplitude)</li>
                     <li>• Status: Monitor current angle, velocity, time, and simulation status</li>
                   </ul>
                 </div>
@@ -1997,6 +2074,21 @@ export default function SimplePendulumSimulator({
                             name={currentChart.name}
                             isAnimationActive={!isRunning}
                           />
+                          {currentChart.overlayKey && (
+                            <Line
+                              type="monotone"
+                              dataKey={currentChart.overlayKey}
+                              stroke={currentChart.overlayColor}
+                              strokeWidth={2}
+                              strokeDasharray="5 5"
+                              dot={false}
+                              name={currentChart.overlayName}
+                              isAnimationActive={!isRunning}
+                            />
+                          )}
+                          {currentChart.marker && (
+                            <ReferenceDot x={currentChart.marker.x} y={currentChart.marker.y} r={5} fill={currentChart.color} stroke="#fff" />
+                          )}
                         </LineChart>
                       </ResponsiveContainer>
                     );
@@ -2031,6 +2123,21 @@ export default function SimplePendulumSimulator({
                             name={currentChart.name}
                             isAnimationActive={!isRunning}
                           />
+                          {currentChart.overlayKey && (
+                            <Line
+                              type="monotone"
+                              dataKey={currentChart.overlayKey}
+                              stroke={currentChart.overlayColor}
+                              strokeWidth={2}
+                              strokeDasharray="5 5"
+                              dot={false}
+                              name={currentChart.overlayName}
+                              isAnimationActive={!isRunning}
+                            />
+                          )}
+                          {currentChart.marker && (
+                            <ReferenceDot x={currentChart.marker.x} y={currentChart.marker.y} r={5} fill={currentChart.color} stroke="#fff" />
+                          )}
                         </LineChart>
                       </ResponsiveContainer>
                     );
@@ -2148,6 +2255,21 @@ export default function SimplePendulumSimulator({
                             name={currentChart.name}
                             isAnimationActive={!isRunning}
                           />
+                          {currentChart.overlayKey && (
+                            <Line
+                              type="monotone"
+                              dataKey={currentChart.overlayKey}
+                              stroke={currentChart.overlayColor}
+                              strokeWidth={2}
+                              strokeDasharray="5 5"
+                              dot={false}
+                              name={currentChart.overlayName}
+                              isAnimationActive={!isRunning}
+                            />
+                          )}
+                          {currentChart.marker && (
+                            <ReferenceDot x={currentChart.marker.x} y={currentChart.marker.y} r={5} fill={currentChart.color} stroke="#fff" />
+                          )}
                         </LineChart>
                       </ResponsiveContainer>
                     );
@@ -2182,6 +2304,21 @@ export default function SimplePendulumSimulator({
                             name={currentChart.name}
                             isAnimationActive={!isRunning}
                           />
+                          {currentChart.overlayKey && (
+                            <Line
+                              type="monotone"
+                              dataKey={currentChart.overlayKey}
+                              stroke={currentChart.overlayColor}
+                              strokeWidth={2}
+                              strokeDasharray="5 5"
+                              dot={false}
+                              name={currentChart.overlayName}
+                              isAnimationActive={!isRunning}
+                            />
+                          )}
+                          {currentChart.marker && (
+                            <ReferenceDot x={currentChart.marker.x} y={currentChart.marker.y} r={5} fill={currentChart.color} stroke="#fff" />
+                          )}
                         </LineChart>
                       </ResponsiveContainer>
                     );
@@ -1,10 +1,13 @@
 import { useState, useEffect, useRef, useMemo, createElement } from 'react';
 import { renderToString } from 'react-dom/server';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
 import { Play, Pause, RotateCcw, Info, Beaker, Camera } from 'lucide-react';
 import * as THREE from 'three';
 import IntegratedGlassmorphismBurette from './titration/IntegratedGlassmorphismBurette';
 import IntegratedGlassmorphismConicalFlask from './titration/IntegratedGlassmorphismConicalFlask';
+import ConductivityProbe from './titration/ConductivityProbe';
+import PHProbe from './titration/PHProbe';
+import BuretteReadingLens from './titration/BuretteReadingLens';
 import { 
   getDefaultCameraPosition, 
   getSavedCameraPosition,
@@ -12,7 +15,99 @@ import {
   clearCameraPositionsCache
 } from '../../services/cameraPositionService';
 import type { CameraPosition } from '../../types/cameraPosition';
+import type {
+  BackTitrationSample,
+  BufferRecipe,
+  BuretteFill,
+  BuretteReadingEntry,
+  ChartView,
+  ChemistryId,
+  MeasurementMode,
+  PHMeterSettings,
+  PrimaryStandardId,
+  StandardPreparation,
+  TitrationChallenge,
+  TitrationDataPoint,
+  TitrationTrial
+} from '../../types/titration';
 import CameraPositionAdmin from '../admin/CameraPositionAdmin';
+import {
+  ANALYTES,
+  DEFAULT_ANALYTE_ID,
+  getAnalyte,
+  getHalfEquivalencePoints,
+  getNeutralPH,
+  getPKw,
+  getProtonCount
+} from './titration/titrationChemistry';
+import {
+  INDICATORS,
+  DEFAULT_INDICATOR_ID,
+  assessIndicator,
+  getIndicator
+} from './titration/indicators';
+import { calculateConductivity } from './titration/conductivity';
+import {
+  ACCEPTABLE_SLOPE,
+  CALIBRATION_BUFFERS,
+  DEFAULT_PH_METER,
+  addCalibrationPoint,
+  fitCalibration,
+  gaussianNoise,
+  getIndicatedPH,
+  stepMeterReading
+} from './titration/phMeter';
+import {
+  CACO3_MOLAR_MASS,
+  CHEMISTRIES,
+  DEFAULT_CHEMISTRY_ID,
+  QUANTITY_INFO,
+  getBackTitrationMoles,
+  getBufferAcid,
+  getBufferCapacities,
+  getChemistry
+} from './titration/chemistries';
+import type { TitrationSetup } from './titration/chemistries';
+import {
+  compareEndPoint,
+  findDerivativeEndPoint,
+  findSecondDerivativeEndPoint,
+  fitGranLine,
+  getFirstDerivative,
+  getGranPlot,
+  getSecondDerivative
+} from './titration/curveAnalysis';
+import type { AnalysisPoint, EndPointComparison } from './titration/curveAnalysis';
+import { CONCORDANCE_TOLERANCE, exportNotebookCSV, summariseNotebook } from './titration/labNotebook';
+import {
+  BALANCE_READABILITY,
+  NOMINAL_TITRANT_CONC,
+  PIPETTE_TOLERANCE,
+  PRIMARY_STANDARDS,
+  VOLUMETRIC_FLASK_TOLERANCE,
+  createPreparation,
+  getErrorBudget,
+  getPreparedSolution,
+  getPrimaryStandard,
+  getRecordedMoles,
+  getStandardMolarRatio,
+  getStandardisedConcentration,
+  getSuggestedMass,
+  makeUpToMark,
+  pipetteAliquot,
+  weighStandard
+} from './titration/standardisation';
+import {
+  EYE_LEVEL_TOLERANCE,
+  READING_UNCERTAINTY,
+  checkReading,
+  getParallaxShift,
+  getPercentageError,
+  getReadTitre,
+  propagateConcentration
+} from './titration/buretteReading';
+import { CHALLENGE_TOLERANCE, createChallenge, gradeAnswer } from './titration/challenge';
+import { generateSeedCode } from '../../utils/random';
 
 // Module-level storage for Three.js objects - persists across component unmounts/remounts
 const persistentThreeJS = {
@@ -26,17 +121,34 @@ const persistentThreeJS = {
 
 // Module-level storage for React state - persists across component unmounts/remounts
 const persistentState = {
-  solutionType: 'acid' as 'acid' | 'base',
+  chemistryId: DEFAULT_CHEMISTRY_ID,
+  analyteId: DEFAULT_ANALYTE_ID,
+  analytePKs: [...(getAnalyte(DEFAULT_ANALYTE_ID).pKs ?? [])],
   solutionConc: 0.1,
   solutionVol: 25,
-  titrantType: 'base' as 'acid' | 'base',
   titrantConc: 0.1,
+  temperature: 25, // °C
+  measurementMode: 'ph' as MeasurementMode,
+  phMeter: { ...DEFAULT_PH_METER } as PHMeterSettings,
+  meterReading: 7,
+  indicatorId: DEFAULT_INDICATOR_ID,
+  starchAdded: false,
+  backTitration: { sampleMass: 0.5, reagentVolume: 25, reagentConc: 0.5, reagentAdded: false } as BackTitrationSample,
+  buffer: { acidConc: 0.1, baseConc: 0.1, addition: 'base' } as BufferRecipe,
+  standardisation: createPreparation('khp') as StandardPreparation,
   titrantAdded: 0,
+  buretteFills: [{ startVolume: 0, initialReading: 0, finalReading: null }] as BuretteFill[],
   isRunning: false,
   buretteStopcockOpen: false,
-  data: [] as {volume: number, pH: number}[],
+  stopcockOpening: 0.6, // Fraction of full opening (0.6 = 1.2 mL/s)
+  data: [] as TitrationDataPoint[],
+  chartView: 'curve' as ChartView,
   showTutorial: false,
   showConfig: false,
+  showNotebook: false,
+  showBuretteReading: false,
+  notebook: [] as TitrationTrial[],
+  challenge: null as TitrationChallenge | null,
   showChart: false,
   showChartSidebar: true,
   chartWidth: 384,
@@ -45,51 +157,13 @@ const persistentState = {
   showAdminCamera: false,
 };
 
-const calculatePH = (concentration: number, volume: number, type: string, titrantConc: number, titrantVol: number, titrantType: string) => {
-  const totalVol = volume + titrantVol;
-  if (totalVol === 0) return type === 'acid' ? 1 : 13;
-  
-  const initialMoles = concentration * volume / 1000;
-  const titrantMoles = titrantConc * titrantVol / 1000;
-  
-  let excessMoles = 0;
-  let resultType = type;
-  
-  if (type === 'acid' && titrantType === 'base') {
-    excessMoles = initialMoles - titrantMoles;
-    if (excessMoles < 0) {
-      resultType = 'base';
-      excessMoles = Math.abs(excessMoles);
-    }
-  } else if (type === 'base' && titrantType === 'acid') {
-    excessMoles = initialMoles - titrantMoles;
-    if (excessMoles < 0) {
-      resultType = 'acid';
-      excessMoles = Math.abs(excessMoles);
-    }
-  }
-  
-  const excessConc = (excessMoles / totalVol) * 1000;
-  
-  if (excessConc < 1e-7) return 7.0;
-  
-  if (resultType === 'acid') {
-    return Math.max(0, -Math.log10(excessConc));
-  } else {
-    return Math.min(14, 14 + Math.log10(excessConc));
-  }
-};
+// pH meter display refresh interval (ms)
+const METER_UPDATE_INTERVAL = 100;
 
-const getIndicatorColor = (pH: number) => {
-  if (pH < 8.2) {
-    return new THREE.Color(0.8, 0.8, 0.9);
-  } else if (pH > 10) {
-    return new THREE.Color(1.0, 0.1, 0.6);
-  } else {
-    const t = (pH - 8.2) / 1.8;
-    return new THREE.Color(0.8 + (0.2 * t), 0.8 - (0.7 * t), 0.9 - (0.3 * t));
-  }
-};
+// Burette dispensing rates
+const MAX_FLOW_RATE = 2.0; // mL/s with the stopcock fully open
+const DROP_VOLUME = 0.05; // mL per drop
+const BURETTE_CAPACITY = 50; // mL
 
 interface TitrationSimulatorProps {
   isEmbedded?: boolean;
@@ -104,16 +178,41 @@ export default function TitrationSimulator({ isEmbedded = false, onChartOpenChan
   const animationIdRef = useRef<number | null>(null);
   
   // Initialize state from persistent storage or defaults
-  const [solutionType, setSolutionType] = useState(() => persistentState.solutionType);
+  const [chemistryId, setChemistryId] = useState<ChemistryId>(() => persistentState.chemistryId);
+  const [analyteId, setAnalyteId] = useState(() => persistentState.analyteId);
+  const [analytePKs, setAnalytePKs] = useState<number[]>(() => [...persistentState.analytePKs]);
   const [solutionConc, setSolutionConc] = useState(() => persistentState.solutionConc);
   const [solutionVol, setSolutionVol] = useState(() => persistentState.solutionVol);
-  const [titrantType, setTitrantType] = useState(() => persistentState.titrantType);
   const [titrantConc, setTitrantConc] = useState(() => persistentState.titrantConc);
+  const [indicatorId, setIndicatorId] = useState(() => persistentState.indicatorId);
+  const [starchAdded, setStarchAdded] = useState(() => persistentState.starchAdded);
+  const [backTitrationSample, setBackTitrationSample] = useState<BackTitrationSample>(() => ({ ...persistentState.backTitration }));
+  const [bufferRecipe, setBufferRecipe] = useState<BufferRecipe>(() => ({ ...persistentState.buffer }));
+  const [standardPrep, setStandardPrep] = useState<StandardPreparation>(() => ({ ...persistentState.standardisation }));
+  // Preparation controls: mass to scoop out and the meniscus positions relative to the marks (mL)
+  const [standardMass, setStandardMass] = useState(() => parseFloat(getSuggestedMass(getPrimaryStandard(persistentState.standardisation.standardId)).toFixed(3)));
+  const [rinsedBoat, setRinsedBoat] = useState(true);
+  const [flaskFillLevel, setFlaskFillLevel] = useState(-3);
+  const [pipetteFillLevel, setPipetteFillLevel] = useState(1);
+  const [temperature, setTemperature] = useState(() => persistentState.temperature);
+  const [measurementMode, setMeasurementMode] = useState<MeasurementMode>(() => persistentState.measurementMode);
+  const [phMeter, setPHMeter] = useState<PHMeterSettings>(() => ({ ...persistentState.phMeter }));
+  const [meterReading, setMeterReading] = useState(() => persistentState.meterReading);
   const [titrantAdded, setTitrantAdded] = useState(() => persistentState.titrantAdded);
+  const [buretteFills, setBuretteFills] = useState<BuretteFill[]>(() => persistentState.buretteFills.map(f => ({ ...f })));
   const [isRunning, setIsRunning] = useState(() => persistentState.isRunning);
-  const [data, setData] = useState<{volume: number, pH: number}[]>(() => [...persistentState.data]);
+  const [data, setData] = useState<TitrationDataPoint[]>(() => [...persistentState.data]);
+  const [chartView, setChartView] = useState<ChartView>(() => persistentState.chartView);
   const [showTutorial, setShowTutorial] = useState(() => persistentState.showTutorial);
   const [showConfig, setShowConfig] = useState(() => persistentState.showConfig);
+  const [showNotebook, setShowNotebook] = useState(() => persistentState.showNotebook);
+  const [showBuretteReading, setShowBuretteReading] = useState(() => persistentState.showBuretteReading);
+  const [buretteReadingInput, setBuretteReadingInput] = useState('');
+  const [eyeElevation, setEyeElevation] = useState(0); // Camera angle above the meniscus (radians)
+  const [notebook, setNotebook] = useState<TitrationTrial[]>(() => [...persistentState.notebook]);
+  const [challenge, setChallenge] = useState<TitrationChallenge | null>(() => persistentState.challenge);
+  const [challengeSeedInput, setChallengeSeedInput] = useState(() => persistentState.challenge?.seed ?? '');
+  const [challengeAnswerInput, setChallengeAnswerInput] = useState('');
   const [showChart, setShowChart] = useState(() => persistentState.showChart);
   const [showChartSidebar, setShowChartSidebar] = useState(() => persistentState.showChartSidebar);
   const [chartWidth, setChartWidth] = useState(() => persistentState.chartWidth);
@@ -129,35 +228,83 @@ export default function TitrationSimulator({ isEmbedded = false, onChartOpenChan
   
   // Sync state changes to persistent storage
   useEffect(() => {
-    persistentState.solutionType = solutionType;
-  }, [solutionType]);
+    persistentState.chemistryId = chemistryId;
+  }, [chemistryId]);
+  useEffect(() => {
+    persistentState.analyteId = analyteId;
+  }, [analyteId]);
+  useEffect(() => {
+    persistentState.analytePKs = [...analytePKs];
+  }, [analytePKs]);
   useEffect(() => {
     persistentState.solutionConc = solutionConc;
   }, [solutionConc]);
   useEffect(() => {
     persistentState.solutionVol = solutionVol;
   }, [solutionVol]);
-  useEffect(() => {
-    persistentState.titrantType = titrantType;
-  }, [titrantType]);
   useEffect(() => {
     persistentState.titrantConc = titrantConc;
   }, [titrantConc]);
+  useEffect(() => {
+    persistentState.indicatorId = indicatorId;
+  }, [indicatorId]);
+  useEffect(() => {
+    persistentState.starchAdded = starchAdded;
+  }, [starchAdded]);
+  useEffect(() => {
+    persistentState.backTitration = { ...backTitrationSample };
+  }, [backTitrationSample]);
+  useEffect(() => {
+    persistentState.buffer = { ...bufferRecipe };
+  }, [bufferRecipe]);
+  useEffect(() => {
+    persistentState.standardisation = { ...standardPrep };
+  }, [standardPrep]);
+  useEffect(() => {
+    persistentState.temperature = temperature;
+  }, [temperature]);
+  useEffect(() => {
+    persistentState.measurementMode = measurementMode;
+  }, [measurementMode]);
+  useEffect(() => {
+    persistentState.phMeter = { ...phMeter };
+  }, [phMeter]);
+  useEffect(() => {
+    persistentState.meterReading = meterReading;
+  }, [meterReading]);
   useEffect(() => {
     persistentState.titrantAdded = titrantAdded;
   }, [titrantAdded]);
+  useEffect(() => {
+    persistentState.buretteFills = buretteFills.map(f => ({ ...f }));
+  }, [buretteFills]);
   useEffect(() => {
     persistentState.isRunning = isRunning;
   }, [isRunning]);
   useEffect(() => {
     persistentState.data = [...data];
   }, [data]);
+  useEffect(() => {
+    persistentState.chartView = chartView;
+  }, [chartView]);
   useEffect(() => {
     persistentState.showTutorial = showTutorial;
   }, [showTutorial]);
   useEffect(() => {
     persistentState.showConfig = showConfig;
   }, [showConfig]);
+  useEffect(() => {
+    persistentState.showNotebook = showNotebook;
+  }, [showNotebook]);
+  useEffect(() => {
+    persistentState.showBuretteReading = showBuretteReading;
+  }, [showBuretteReading]);
+  useEffect(() => {
+    persistentState.notebook = [...notebook];
+  }, [notebook]);
+  useEffect(() => {
+    persistentState.challenge = challenge;
+  }, [challenge]);
   useEffect(() => {
     persistentState.showChart = showChart;
   }, [showChart]);
@@ -196,13 +343,27 @@ export default function TitrationSimulator({ isEmbedded = false, onChartOpenChan
   const [buretteStopcockOpen, setBuretteStopcockOpen] = useState(() => persistentState.buretteStopcockOpen);
   const [buretteGripWidth, setBuretteGripWidth] = useState(25); // Default to burette diameter grip
   
+  const [stopcockOpening, setStopcockOpening] = useState(() => persistentState.stopcockOpening);
+  const [isDropping, setIsDropping] = useState(false);
+  const dropTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  
   // Sync buretteStopcockOpen to persistent state
   useEffect(() => {
     persistentState.buretteStopcockOpen = buretteStopcockOpen;
   }, [buretteStopcockOpen]);
+  useEffect(() => {
+    persistentState.stopcockOpening = stopcockOpening;
+  }, [stopcockOpening]);
+  
+  // Current fill is always the last entry; mirrored in a ref so the dispensing interval sees refills
+  const currentFill = buretteFills[buretteFills.length - 1];
+  const currentFillRef = useRef(currentFill);
+  currentFillRef.current = currentFill;
+  const buretteReading = currentFill.initialReading + (titrantAdded - currentFill.startVolume);
+  const buretteEmpty = buretteReading >= BURETTE_CAPACITY;
   
   // Ref to track liquid level without causing React re-renders
-  const buretteLiquidLevelRef = useRef(100);
+  const buretteLiquidLevelRef = useRef(100 - (buretteReading / BURETTE_CAPACITY) * 100);
   
   const lastUpdateRef = useRef(Date.now());
   const mouseDownRef = useRef(false);
@@ -368,16 +529,135 @@ export default function TitrationSimulator({ isEmbedded = false, onChartOpenChan
     }
   }, [isResizing]);
   
-  const currentPH = useMemo(() => {
-    return calculatePH(solutionConc, solutionVol, solutionType, titrantConc, titrantAdded, titrantType);
-  }, [solutionConc, solutionVol, solutionType, titrantConc, titrantAdded, titrantType]);
+  const chemistry = useMemo(() => getChemistry(chemistryId), [chemistryId]);
+  const isAcidBase = chemistry.id === 'acid-base';
+  const isBackTitration = chemistry.id === 'back-titration';
+  const isBuffer = chemistry.id === 'buffer';
+  const isStandardisation = chemistry.id === 'standardisation';
+  // Chemistries that titrate an analyte from the acid-base list (indicator choice, Gran plot, conductivity)
+  const isAcidBaseModel = isAcidBase || isStandardisation;
+  const quantityInfo = QUANTITY_INFO[chemistry.quantity];
+  
+  // Standardisation: the flask holds whatever the preparation actually delivered
+  const preparedSolution = useMemo(() => (isStandardisation ? getPreparedSolution(standardPrep) : null), [isStandardisation, standardPrep]);
+  
+  // Selected analyte with the user's Ka/Kb override applied to weak species
+  const analyte = useMemo(() => {
+    if (isStandardisation) return getAnalyte(getPrimaryStandard(standardPrep.standardId).analyteId);
+    const base = getAnalyte(analyteId);
+    return base.strength === 'weak' ? { ...base, pKs: analytePKs } : base;
+  }, [isStandardisation, standardPrep.standardId, analyteId, analytePKs]);
+  
+  // In challenge mode the flask holds the hidden concentration instead of the slider value
+  const isChallenge = challenge !== null;
+  const analyteConc = isStandardisation ? preparedSolution?.concentration ?? 0 : challenge ? challenge.concentration : solutionConc;
+  const flaskVolume = preparedSolution ? preparedSolution.volume : solutionVol;
+  // The titrant being standardised has a true concentration the student does not know
+  const actualTitrantConc = isStandardisation ? standardPrep.titrantConc : titrantConc;
+  
+  const setup = useMemo<TitrationSetup>(() => ({
+    analyte,
+    concentration: analyteConc,
+    volume: flaskVolume,
+    titrantConc: actualTitrantConc,
+    temperature,
+    backTitration: backTitrationSample,
+    buffer: bufferRecipe,
+  }), [analyte, analyteConc, flaskVolume, actualTitrantConc, temperature, backTitrationSample, bufferRecipe]);
+  
+  const analyteName = chemistry.getAnalyteName(setup);
+  const analyteFormula = chemistry.getAnalyteFormula(setup);
+  const titrantName = chemistry.getTitrantName(setup);
+  const bufferAcid = getBufferAcid(setup);
+  
+  // Reading of the chemistry's measured quantity (pH or potential in mV)
+  const currentReading = useMemo(() => chemistry.measure(setup, titrantAdded), [chemistry, setup, titrantAdded]);
+  const currentPH = chemistry.quantity === 'pH' ? currentReading : null;
+  // Same additions into the chemistry's comparison solution (unbuffered water for the buffer workbench)
+  const currentReference = useMemo(() => {
+    return chemistry.getReference ? chemistry.getReference(setup, titrantAdded) : null;
+  }, [chemistry, setup, titrantAdded]);
+  
+  const currentConductivity = useMemo(() => {
+    return calculateConductivity(analyte, analyteConc, flaskVolume, actualTitrantConc, titrantAdded, temperature);
+  }, [analyte, analyteConc, flaskVolume, actualTitrantConc, titrantAdded, temperature]);
   
-  const indicatorColor = useMemo(() => getIndicatorColor(currentPH), [currentPH]);
+  // Conductometric measurement needs the acid-base ion model
+  const isConductometric = isAcidBaseModel && measurementMode === 'conductivity';
+  const chartQuantity = isConductometric ? 'conductivity' : chemistry.quantity;
+  const chartQuantityInfo = QUANTITY_INFO[chartQuantity];
+  const chartAxisLabel = chartQuantityInfo.unit ? `${chartQuantityInfo.label} (${chartQuantityInfo.unit})` : chartQuantityInfo.label;
   
-  const equivalencePoint = useMemo(() => {
-    const eqVol = (solutionConc * solutionVol) / titrantConc;
-    return eqVol.toFixed(2);
-  }, [solutionConc, solutionVol, titrantConc]);
+  // The pH meter replaces ideal values with calibrated, lagged and noisy readings
+  const isPHMeterActive = phMeter.enabled && chemistry.quantity === 'pH';
+  const indicatedPH = useMemo(() => {
+    return isPHMeterActive ? getIndicatedPH(currentReading, phMeter, temperature) : currentReading;
+  }, [isPHMeterActive, currentReading, phMeter, temperature]);
+  const recordedReading = isPHMeterActive ? meterReading : currentReading;
+  const meterCalibration = useMemo(() => fitCalibration(phMeter.calibrationPoints, temperature), [phMeter.calibrationPoints, temperature]);
+  
+  const formatReading = (value: number) => `${value.toFixed(quantityInfo.decimals)}${quantityInfo.unit ? ` ${quantityInfo.unit}` : ''}`;
+  
+  const indicator = useMemo(() => getIndicator(indicatorId), [indicatorId]);
+  
+  const flaskColor = useMemo(() => {
+    return chemistry.getFlaskColor(setup, titrantAdded, { indicator, starchAdded });
+  }, [chemistry, setup, titrantAdded, indicator, starchAdded]);
+  
+  // Every equivalence point (one per proton for acid-base) with the reading there
+  const equivalencePoints = useMemo(() => {
+    return chemistry.getEquivalenceVolumes(setup).map(volume => ({
+      volume,
+      value: chemistry.measure(setup, volume)
+    }));
+  }, [chemistry, setup]);
+  
+  const halfEquivalencePoints = useMemo(() => {
+    if (!isAcidBaseModel) return [];
+    return getHalfEquivalencePoints(analyte, analyteConc, flaskVolume, actualTitrantConc, temperature);
+  }, [isAcidBaseModel, analyte, analyteConc, flaskVolume, actualTitrantConc, temperature]);
+  
+  // Where the chosen indicator changes colour relative to the equivalence point
+  const indicatorAssessment = useMemo(() => {
+    return assessIndicator(indicator, analyte, analyteConc, flaskVolume, actualTitrantConc, temperature);
+  }, [indicator, analyte, analyteConc, flaskVolume, actualTitrantConc, temperature]);
+  
+  // Which equivalence point the end point detects: set by the indicator for polyprotic acid-base titrations
+  const detectedEquivalenceIndex = isAcidBaseModel ? indicatorAssessment.equivalenceIndex : 0;
+  
+  // The Gran plot linearises acid-base curves only; the capacity plot is for buffers
+  const activeChartView: ChartView = (chartView === 'gran' && !isAcidBaseModel) || (chartView === 'capacity' && !isBuffer) ? 'curve' : chartView;
+  
+  // Buffer capacity of the buffer and of water across the whole burette
+  const capacityCurve = useMemo(() => {
+    if (!isBuffer) return [];
+    return Array.from({ length: 101 }, (_, i) => {
+      const volume = (BURETTE_CAPACITY * i) / 100;
+      return { volume, ...getBufferCapacities(setup, volume) };
+    });
+  }, [isBuffer, setup]);
+  const currentCapacity = useMemo(() => (isBuffer ? getBufferCapacities(setup, titrantAdded) : null), [isBuffer, setup, titrantAdded]);
+  
+  // End-point analysis of the collected data for the derivative and Gran views
+  const curveAnalysis = useMemo(() => {
+    const equivalenceVolumes = equivalencePoints.map(p => p.volume);
+    const firstDerivative = getFirstDerivative(data, chemistry.quantity);
+    const secondDerivative = getSecondDerivative(data, chemistry.quantity);
+    const derivativeEndPoint = findDerivativeEndPoint(firstDerivative);
+    const gran = isAcidBaseModel ? getGranPlot(data, analyte, flaskVolume, temperature) : [];
+    const granFit = fitGranLine(gran, derivativeEndPoint);
+    return {
+      firstDerivative,
+      secondDerivative,
+      gran,
+      granLine: granFit?.line ?? [],
+      comparisons: {
+        derivative: compareEndPoint(derivativeEndPoint, equivalenceVolumes),
+        secondDerivative: compareEndPoint(findSecondDerivativeEndPoint(secondDerivative, derivativeEndPoint), equivalenceVolumes),
+        gran: compareEndPoint(granFit?.endPoint ?? null, equivalenceVolumes),
+      } as Record<Exclude<ChartView, 'curve' | 'capacity'>, EndPointComparison>,
+    };
+  }, [data, chemistry, isAcidBaseModel, analyte, flaskVolume, temperature, equivalencePoints]);
   
   useEffect(() => {
     if (!mountRef.current) return;
@@ -1261,7 +1541,7 @@ export default function TitrationSimulator({ isEmbedded = false, onChartOpenChan
   useEffect(() => {
     // Conical flask liquid level will be handled by the IntegratedGlassmorphismConicalFlask component
     // No need for separate liquid level management here
-  }, [indicatorColor, solutionVol, titrantAdded, sceneReady]);
+  }, [flaskColor, solutionVol, titrantAdded, sceneReady]);
 
   // Remove separate useEffect for burette liquid level updates - now handled directly in titration interval
   
@@ -1281,32 +1561,27 @@ export default function TitrationSimulator({ isEmbedded = false, onChartOpenChan
         const delta = (now - lastUpdateRef.current) / 1000;
         lastUpdateRef.current = now;
         
-        const flowRate = 1.2; // Increased flow rate as requested
-        const increment = flowRate * delta;
-        
-        setTitrantAdded(prev => {
-          const newVol = Math.min(prev + increment, 50); // Burette holds max 50mL
-          if (newVol >= 50) { // Burette empty when 50mL added
-            setIsRunning(false);
-            setBuretteStopcockOpen(false); // Close stopcock when burette is empty
-          }
-          
-          // Update burette liquid level ref directly for smooth animation
-          // Since markings go from 0 (top) to 50 (bottom), and liquid starts at 0 mark (full)
-          // As we add titrant, liquid level drops to show volume added
-          // If we've added 25mL, liquid should be at 25mL mark (50% down from top)
-          // So liquid level should be 100% - (volumeAdded/50) * 100%
-          const volumeAdded = newVol; // This represents mL added
-          const liquidLevelPercentage = 100 - (volumeAdded / 50) * 100; // Start at 100%, subtract based on volume added
-          buretteLiquidLevelRef.current = Math.max(0, liquidLevelPercentage);
-          
-          return newVol;
-        });
+        const flowRate = MAX_FLOW_RATE * stopcockOpening;
+        dispense(flowRate * delta);
       }, 100); // Increased interval for smoother updates
       
       return () => clearInterval(interval);
     }
-  }, [isRunning]);
+  }, [isRunning, stopcockOpening]);
+  
+  // pH meter display: the electrode follows the flask with a first-order lag, plus noise
+  const indicatedPHRef = useRef(indicatedPH);
+  indicatedPHRef.current = indicatedPH;
+  const laggedPHRef = useRef(meterReading);
+  useEffect(() => {
+    if (!isPHMeterActive) return;
+    const interval = setInterval(() => {
+      laggedPHRef.current = stepMeterReading(laggedPHRef.current, indicatedPHRef.current, METER_UPDATE_INTERVAL / 1000, phMeter.responseTime);
+      setMeterReading(laggedPHRef.current + gaussianNoise(phMeter.noise));
+    }, METER_UPDATE_INTERVAL);
+    
+    return () => clearInterval(interval);
+  }, [isPHMeterActive, phMeter.responseTime, phMeter.noise]);
   
   // Droplet useEffect removed - using proper stream from burette instead
   
@@ -1315,30 +1590,274 @@ export default function TitrationSimulator({ isEmbedded = false, onChartOpenChan
       setData(prev => {
         const lastPoint = prev[prev.length - 1];
         const currentVolume = parseFloat(titrantAdded.toFixed(2));
-        const currentPHValue = parseFloat(currentPH.toFixed(2));
+        const point: TitrationDataPoint = {
+          volume: currentVolume,
+          [chemistry.quantity]: parseFloat(recordedReading.toFixed(quantityInfo.decimals)),
+        };
+        if (isAcidBaseModel) {
+          point.conductivity = parseFloat(currentConductivity.toFixed(3));
+        }
+        if (currentReference !== null) {
+          point.referencePH = parseFloat(currentReference.toFixed(quantityInfo.decimals));
+        }
         
         // Add new point if volume changed significantly (reduced threshold for smoother updates)
         if (!lastPoint || Math.abs(lastPoint.volume - titrantAdded) > 0.02) {
-          return [...prev, { 
-            volume: currentVolume, 
-            pH: currentPHValue 
-          }];
+          return [...prev, point];
         }
-        // Update last point's pH value in real-time if pH changed significantly
-        else if (lastPoint && Math.abs(lastPoint.pH - currentPH) > 0.01) {
+        // Update last point's readings in real-time if they changed significantly
+        const lastReading = lastPoint[chemistry.quantity];
+        const readingChanged = lastReading === undefined || Math.abs(lastReading - recordedReading) > Math.pow(10, -quantityInfo.decimals);
+        const conductivityChanged = isAcidBaseModel && Math.abs((lastPoint.conductivity ?? 0) - currentConductivity) > 0.001;
+        if (readingChanged || conductivityChanged) {
           const updatedData = [...prev];
-          updatedData[updatedData.length - 1] = {
-            volume: currentVolume,
-            pH: currentPHValue
-          };
+          updatedData[updatedData.length - 1] = point;
           return updatedData;
         }
         return prev;
       });
     }
-  }, [titrantAdded, currentPH]);
+  }, [titrantAdded, recordedReading, currentConductivity, currentReference]);
+  
+  // Add titrant to the flask, stopping when the current burette fill runs dry
+  const dispense = (increment: number) => {
+    const fill = currentFillRef.current;
+    const emptyVolume = fill.startVolume + (BURETTE_CAPACITY - fill.initialReading);
+    setTitrantAdded(prev => {
+      const newVol = Math.min(prev + increment, emptyVolume);
+      if (newVol >= emptyVolume) { // Burette empty at the 50mL mark
+        setIsRunning(false);
+        setBuretteStopcockOpen(false); // Close stopcock when burette is empty
+      }
+      
+      // Update burette liquid level ref directly for smooth animation
+      // Markings go from 0 (top) to 50 (bottom), so the level drops to the current reading
+      const reading = fill.initialReading + (newVol - fill.startVolume);
+      const liquidLevelPercentage = 100 - (reading / BURETTE_CAPACITY) * 100;
+      buretteLiquidLevelRef.current = Math.max(0, liquidLevelPercentage);
+      
+      return newVol;
+    });
+  };
+  
+  const notebookSummary = useMemo(() => summariseNotebook(notebook), [notebook]);
+  
+  const backTitrationMoles = getBackTitrationMoles(backTitrationSample);
+  // Titrating cannot start until the excess acid has been added to the sample, or the standard pipetted in
+  const awaitingReagent = (isBackTitration && !backTitrationSample.reagentAdded) || (isStandardisation && !preparedSolution);
+  
+  // Record the current run as a notebook trial, then reset the apparatus for the next one
+  const recordTrial = () => {
+    if (titrantAdded <= 0) return;
+    // In reading mode the notebook holds the student's own readings, each good to ±0.05 mL
+    const titreByEye = showBuretteReading ? readTitre : null;
+    if (showBuretteReading && !titreByEye) return;
+    const fills = buretteFills.map((fill, i) => (
+      titreByEye
+        ? { ...fill, initialReading: fill.initialRead!.entered, finalReading: fill.finalRead!.entered }
+        : i === buretteFills.length - 1 ? { ...fill, finalReading: parseFloat(buretteReading.toFixed(2)) } : { ...fill }
+    ));
+    const trial: TitrationTrial = {
+      id: Date.now(),
+      fills,
+      titre: fills.reduce((sum, fill) => sum + ((fill.finalReading ?? fill.initialReading) - fill.initialReading), 0),
+      titreUncertainty: titreByEye ? titreByEye.uncertainty : null,
+      endPointPH: isPHMeterActive ? meterReading : currentPH,
+      indicatorName: chemistry.colorModel === 'indicator' ? indicator.name : chemistry.colorModel === 'starch' ? 'Starch' : 'Self-indicating',
+      analyteName,
+      aliquotVolume: isBackTitration ? backTitrationSample.reagentVolume : isStandardisation ? standardPrep.pipetteVolume : solutionVol,
+      titrantConc,
+      molarRatio: chemistry.getMolarRatio(setup, detectedEquivalenceIndex),
+      isRough: notebook.length === 0, // First run is the rough titration
+    };
+    setNotebook(prev => [...prev, trial]);
+    reset();
+  };
+  
+  // Switch reaction type, loading concentrations that give a sensible titre
+  const selectChemistry = (id: ChemistryId) => {
+    const next = getChemistry(id);
+    setChemistryId(id);
+    setSolutionConc(next.defaultConcentrations.analyte);
+    setTitrantConc(next.defaultConcentrations.titrant);
+    if (!next.supportsChallenge) setChallenge(null);
+    if (id === 'standardisation') startPreparation(standardPrep.standardId);
+    // The buffer workbench needs a weak acid
+    if (id === 'buffer' && !(analyte.type === 'acid' && analyte.strength === 'weak')) {
+      const weakAcid = getAnalyte('ethanoic');
+      setAnalyteId(weakAcid.id);
+      setAnalytePKs([...(weakAcid.pKs ?? [])]);
+    }
+    reset();
+  };
+  
+  // Standardisation: start weighing a fresh sample of the chosen primary standard
+  const startPreparation = (standardId: PrimaryStandardId) => {
+    setStandardPrep(createPreparation(standardId));
+    setStandardMass(parseFloat(getSuggestedMass(getPrimaryStandard(standardId)).toFixed(3)));
+    setFlaskFillLevel(-3);
+    setPipetteFillLevel(1);
+  };
+  
+  // Drops from a wash bottle or pipette tip are not all the same size
+  const randomDrop = (size: number) => size * (0.6 + 0.8 * Math.random());
+  
+  // Back titration step 1: dissolve the sample in the excess acid before titrating
+  const addExcessReagent = () => {
+    setBackTitrationSample(prev => ({ ...prev, reagentAdded: true }));
+  };
+  
+  const startChallenge = (seed: string) => {
+    const code = seed.trim() || generateSeedCode();
+    const next = createChallenge(code);
+    setChallenge(next);
+    setChallengeSeedInput(next.seed);
+    setChallengeAnswerInput('');
+    reset();
+  };
+  
+  const submitChallengeAnswer = () => {
+    const answer = parseFloat(challengeAnswerInput);
+    if (!challenge || !isFinite(answer) || answer <= 0) return;
+    setChallenge({ ...challenge, submittedAnswer: answer });
+  };
+  
+  const challengeResult = challenge && challenge.submittedAnswer !== null
+    ? gradeAnswer(challenge.submittedAnswer, challenge.concentration)
+    : null;
+  
+  // Worked-solution quantities at the equivalence point the chosen indicator detects
+  const solutionMolarRatio = chemistry.getMolarRatio(setup, detectedEquivalenceIndex);
+  const solutionTitre = equivalencePoints[detectedEquivalenceIndex].volume;
+  const solutionTitrantMoles = titrantConc * solutionTitre / 1000;
+  
+  const toggleRough = (id: number) => {
+    setNotebook(prev => prev.map(t => (t.id === id ? { ...t, isRough: !t.isRough } : t)));
+  };
+  
+  const exportNotebook = () => {
+    const csv = exportNotebookCSV(notebook, notebookSummary);
+    const blob = new Blob([csv], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'titration-notebook.csv';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+  
+  // Close the stopcock, record the final reading, refill to the zero mark and record the new initial reading
+  // In reading mode the fill is closed off at the student's own final reading
+  const refillBurette = () => {
+    setIsRunning(false);
+    setBuretteStopcockOpen(false);
+    if (showBuretteReading && !currentFill.finalRead) return;
+    const finalReading = showBuretteReading ? currentFill.finalRead!.entered : parseFloat(buretteReading.toFixed(2));
+    const nextFill: BuretteFill = { startVolume: titrantAdded, initialReading: 0, finalReading: null };
+    setBuretteFills(prev => [
+      ...prev.slice(0, -1),
+      { ...prev[prev.length - 1], finalReading },
+      nextFill
+    ]);
+    currentFillRef.current = nextFill;
+    buretteLiquidLevelRef.current = 100;
+  };
+  
+  // Reading mode: the bottom of the meniscus in the 3D burette
+  const findMeniscus = () => {
+    const found: THREE.Object3D[] = [];
+    glassmorphismBuretteRef.current?.traverse(obj => {
+      if (obj.userData?.type === 'meniscus') found.push(obj);
+    });
+    return found[0] ?? null;
+  };
+  
+  // Track how far above (or below) the meniscus the camera is while reading
+  useEffect(() => {
+    if (!showBuretteReading) return;
+    const interval = setInterval(() => {
+      const meniscus = findMeniscus();
+      const camera = cameraRef.current;
+      if (!meniscus || !camera) return;
+      const m = meniscus.getWorldPosition(new THREE.Vector3());
+      const elevation = Math.atan2(camera.position.y - m.y, Math.hypot(camera.position.x - m.x, camera.position.z - m.z));
+      setEyeElevation(prev => (Math.abs(prev - elevation) > 1e-3 ? elevation : prev));
+    }, 100);
+    
+    return () => clearInterval(interval);
+  }, [showBuretteReading]);
+  
+  const parallax = getParallaxShift(eyeElevation);
+  // In reading mode the student reads the scale by eye, so the readouts show only their own latest reading
+  const lastEnteredReading = currentFill.finalRead?.entered ?? currentFill.initialRead?.entered ?? null;
+  const buretteReadout = !showBuretteReading
+    ? `${buretteReading.toFixed(2)} mL`
+    : lastEnteredReading !== null ? `${lastEnteredReading.toFixed(2)} mL (read)` : 'Read the scale';
+  const isEyeLevel = Math.abs(eyeElevation) <= EYE_LEVEL_TOLERANCE;
+  
+  // Orbit the camera up or down until it is level with the meniscus
+  const levelEyeWithMeniscus = () => {
+    const meniscus = findMeniscus();
+    const camera = cameraRef.current;
+    if (!meniscus || !camera) return;
+    const meniscusY = meniscus.getWorldPosition(new THREE.Vector3()).y;
+    const distance = cameraDistanceRef.current;
+    const lookAtY = camera.position.y - distance * Math.cos(cameraAngleRef.current.phi);
+    const cosPhi = Math.max(-1, Math.min(1, (meniscusY - lookAtY) / distance));
+    cameraAngleRef.current.phi = Math.max(0.1, Math.min(Math.PI / 2, Math.acos(cosPhi)));
+    userHasRotatedRef.current = true;
+    setAutoRotate(false);
+  };
+  
+  // Store the student's reading as the current fill's initial or final reading
+  const recordBuretteReading = (which: 'initial' | 'final') => {
+    const entered = parseFloat(buretteReadingInput);
+    if (!isFinite(entered)) return;
+    const entry: BuretteReadingEntry = { entered, actual: parseFloat(buretteReading.toFixed(2)), parallax };
+    setBuretteFills(prev => prev.map((fill, i) => (
+      i === prev.length - 1 ? { ...fill, [which === 'initial' ? 'initialRead' : 'finalRead']: entry } : fill
+    )));
+    setBuretteReadingInput('');
+  };
+  
+  // Concentration from the student's own readings, with the reading uncertainty carried through
+  const readTitre = getReadTitre(buretteFills);
+  const readResult = readTitre && !isStandardisation
+    ? propagateConcentration(readTitre.titre, readTitre.uncertainty, titrantConc, solutionMolarRatio, isBackTitration ? backTitrationSample.reagentVolume : solutionVol)
+    : null;
+  // Standardisation result from the student's recorded values and titre (their own readings when taken)
+  const standardRecordedMoles = getRecordedMoles(standardPrep);
+  const standardisationTitre = readTitre ? readTitre.titre : titrantAdded;
+  const standardisedConc = isStandardisation && standardRecordedMoles !== null
+    ? getStandardisedConcentration(standardRecordedMoles, solutionMolarRatio, standardisationTitre)
+    : null;
+  const standardErrorBudget = getErrorBudget(standardPrep);
+  
+  // Only the plain analyte concentration has an accepted value to compare against
+  const acceptedConcentration = isBackTitration || isBuffer ? null : analyteConc;
+  
+  // Dispense a single drop (or half drop) by briefly cracking the stopcock
+  const addDrop = (fraction: number) => {
+    if (isRunning || buretteEmpty || awaitingReagent) return;
+    dispense(DROP_VOLUME * fraction);
+    setIsDropping(true);
+    if (dropTimeoutRef.current) {
+      clearTimeout(dropTimeoutRef.current);
+    }
+    dropTimeoutRef.current = setTimeout(() => setIsDropping(false), 250);
+  };
+  
+  useEffect(() => {
+    return () => {
+      if (dropTimeoutRef.current) {
+        clearTimeout(dropTimeoutRef.current);
+      }
+    };
+  }, []);
   
   const toggleDispensing = () => {
+    if (!isRunning && buretteEmpty) return; // Burette must be refilled first
+    if (!isRunning && awaitingReagent) return;
     if (!isRunning) {
       lastUpdateRef.current = Date.now();
       setBuretteStopcockOpen(true); // Open stopcock when starting
@@ -1353,10 +1872,19 @@ export default function TitrationSimulator({ isEmbedded = false, onChartOpenChan
     setBuretteStopcockOpen(false); // Close stopcock on reset
     setTitrantAdded(0);
     setData([]);
+    setStarchAdded(false);
+    setBackTitrationSample(prev => ({ ...prev, reagentAdded: false }));
+    // The standard solution stays in the volumetric flask; the next run needs a fresh aliquot
+    setStandardPrep(prev => (prev.stage === 'ready' ? { ...prev, stage: 'pipette', actualAliquot: null } : prev));
+    setPipetteFillLevel(1);
+    const firstFill: BuretteFill = { startVolume: 0, initialReading: 0, finalReading: null };
+    setBuretteFills([firstFill]);
+    currentFillRef.current = firstFill;
     // Reset persistent state as well
     persistentState.isRunning = false;
     persistentState.buretteStopcockOpen = false;
     persistentState.titrantAdded = 0;
+    persistentState.buretteFills = [{ ...firstFill }];
     persistentState.data = [];
     // Reset burette liquid level ref to start at 0 mark (full)
     buretteLiquidLevelRef.current = 100;
@@ -1473,7 +2001,269 @@ export default function TitrationSimulator({ isEmbedded = false, onChartOpenChan
       if (cleanup) cleanup();
       if (container) container.innerHTML = '';
     };
-  }, [isEmbedded, isRunning]);
+    // Rebound whenever a value toggleDispensing checks changes, so the embedded button never acts on a stale one
+  }, [isEmbedded, isRunning, buretteEmpty, awaitingReagent]);
+  
+  // Stopcock opening slider and single-drop buttons shared by the floating bar and config panel
+  const buretteControls = (
+    <div className="bg-black bg-opacity-70 backdrop-blur-sm text-white px-3 py-2 rounded-lg shadow-lg">
+      <label className="block text-xs text-cyan-200 mb-1">
+        Stopcock: {Math.round(stopcockOpening * 100)}% open ({(MAX_FLOW_RATE * stopcockOpening).toFixed(2)} mL/s)
+      </label>
+      <input
+        type="range"
+        min="0.02"
+        max="1"
+        step="0.01"
+        value={stopcockOpening}
+        onChange={(e) => setStopcockOpening(parseFloat(e.target.value))}
+        className="w-full accent-cyan-500"
+      />
+      <div className="flex gap-2 mt-2">
+        <button
+          onClick={() => addDrop(1)}
+          disabled={isRunning}
+          className="flex-1 bg-cyan-700 hover:bg-cyan-600 disabled:opacity-40 text-white text-xs px-2 py-1 rounded"
+        >
+          + 1 drop ({DROP_VOLUME.toFixed(2)} mL)
+        </button>
+        <button
+          onClick={() => addDrop(0.5)}
+          disabled={isRunning}
+          className="flex-1 bg-cyan-700 hover:bg-cyan-600 disabled:opacity-40 text-white text-xs px-2 py-1 rounded"
+        >
+          + ½ drop ({(DROP_VOLUME / 2).toFixed(3)} mL)
+        </button>
+      </div>
+      <button
+        onClick={refillBurette}
+        disabled={isRunning || buretteReading === 0 || (showBuretteReading && !currentFill.finalRead)}
+        className="w-full mt-2 bg-indigo-700 hover:bg-indigo-600 disabled:opacity-40 text-white text-xs px-2 py-1 rounded"
+      >
+        {showBuretteReading ? currentFill.finalRead ? 'Refill burette' : 'Refill burette (take the final reading first)' : `Refill burette (reading ${buretteReading.toFixed(2)} mL)`}
+      </button>
+    </div>
+  );
+  
+  // View selector shared by the chart sidebar and the mobile chart overlay
+  const chartViewTabs = (
+    <div className={`grid ${isAcidBaseModel || isBuffer ? 'grid-cols-4' : 'grid-cols-3'} gap-1 mb-3`}>
+      {([
+        ['curve', 'Curve'],
+        ['derivative', `d${quantityInfo.label}/dV`],
+        ['secondDerivative', `d²${quantityInfo.label}/dV²`],
+        ...(isAcidBaseModel ? [['gran', 'Gran']] : []),
+        ...(isBuffer ? [['capacity', 'β']] : []),
+      ] as [ChartView, string][]).map(([view, label]) => (
+        <button
+          key={view}
+          onClick={() => setChartView(view)}
+          className={`px-2 py-1 rounded text-xs transition ${
+            activeChartView === view ? 'bg-cyan-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+          }`}
+        >
+          {label}
+        </button>
+      ))}
+    </div>
+  );
+  
+  // Magnified meniscus against a graduation mark; the gauge spans ±0.5 mL
+  const renderLevelGauge = (offset: number, label: string) => {
+    const clamped = Math.max(-0.5, Math.min(0.5, offset));
+    return (
+      <div className="flex items-center gap-3">
+        <div className="relative w-10 h-32 bg-gray-900 border border-cyan-500 border-opacity-50 rounded overflow-hidden">
+          <div className="absolute left-0 right-0 bottom-0 bg-cyan-600 bg-opacity-60" style={{ top: `${50 - clamped * 100}%` }} />
+          <div className="absolute left-0 right-0 border-t-2 border-white" style={{ top: '50%' }} />
+        </div>
+        <p className="text-xs text-gray-300">
+          {label}: {Math.abs(offset) <= 0.025 ? 'on the mark' : offset > 0 ? 'above the mark' : offset < -0.5 ? 'well below the mark' : 'just below the mark'}
+        </p>
+      </div>
+    );
+  };
+  
+  // Buffer capacity against volume added, for the buffer and for unbuffered water (log scale)
+  const renderCapacityChart = (height: number) => (
+    <>
+      <div className="w-full" style={{ height }}>
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={capacityCurve}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#444" />
+            <XAxis
+              dataKey="volume"
+              type="number"
+              label={{ value: 'Volume (mL)', position: 'insideBottom', offset: -5, fill: '#fff' }}
+              stroke="#fff"
+              tick={{ fill: '#fff' }}
+              domain={[0, BURETTE_CAPACITY]}
+            />
+            <YAxis
+              scale="log"
+              domain={['auto', 'auto']}
+              allowDataOverflow
+              label={{ value: 'β (mol/L per pH)', angle: -90, position: 'insideLeft', fill: '#fff' }}
+              stroke="#fff"
+              tick={{ fill: '#fff' }}
+              tickFormatter={(v: number) => v.toExponential(0)}
+            />
+            <Tooltip
+              contentStyle={{ backgroundColor: '#1f2937', border: '1px solid #4b5563' }}
+              labelStyle={{ color: '#fff' }}
+              formatter={(v: number) => v.toExponential(2)}
+            />
+            {!isChallenge && equivalencePoints.map((point, i) => (
+              <ReferenceLine
+                key={i}
+                x={point.volume}
+                stroke="#f472b6"
+                strokeDasharray="4 4"
+                label={{ value: 'Exhausted', position: 'top', fill: '#f472b6', fontSize: 11 }}
+                ifOverflow="hidden"
+              />
+            ))}
+            <ReferenceLine
+              x={titrantAdded}
+              stroke="#facc15"
+              label={{ value: 'Now', position: 'insideTopLeft', fill: '#facc15', fontSize: 11 }}
+              ifOverflow="hidden"
+            />
+            <Line type="monotone" dataKey="buffer" name="Buffer" stroke="#06b6d4" strokeWidth={2} dot={false} isAnimationActive={false} />
+            <Line type="monotone" dataKey="water" name="Unbuffered water" stroke="#9ca3af" strokeDasharray="6 4" strokeWidth={2} dot={false} isAnimationActive={false} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+      {currentCapacity && (
+        <div className="mt-3 bg-gray-800 bg-opacity-60 p-3 rounded-lg border border-gray-600 text-xs text-gray-300 space-y-1">
+          <p>Buffer: β = {currentCapacity.buffer.toExponential(2)} mol/(L·pH)</p>
+          <p>Unbuffered water: β = {currentCapacity.water.toExponential(2)} mol/(L·pH)</p>
+          <p>The buffer resists pH change {(currentCapacity.buffer / currentCapacity.water).toPrecision(3)}× more strongly at this point</p>
+        </div>
+      )}
+    </>
+  );
+  
+  // Derivative or Gran plot of the collected data with the detected end point
+  const renderAnalysisChart = (height: number) => {
+    if (activeChartView === 'curve') return null;
+    if (activeChartView === 'capacity') return renderCapacityChart(height);
+    
+    const series: AnalysisPoint[] = activeChartView === 'derivative'
+      ? curveAnalysis.firstDerivative
+      : activeChartView === 'secondDerivative' ? curveAnalysis.secondDerivative : curveAnalysis.gran;
+    const comparison = curveAnalysis.comparisons[activeChartView];
+    const yLabel = activeChartView === 'derivative'
+      ? `d${quantityInfo.label}/dV`
+      : activeChartView === 'secondDerivative' ? `d²${quantityInfo.label}/dV²` : 'Gran function (scaled)';
+    
+    if (series.length < 3) {
+      return (
+        <div className="flex items-center justify-center text-gray-400 border border-gray-600 rounded-lg" style={{ height }}>
+          Collect more data points to analyse the curve
+        </div>
+      );
+    }
+    
+    return (
+      <>
+        <div className="w-full" style={{ height }}>
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart>
+              <CartesianGrid strokeDasharray="3 3" stroke="#444" />
+              <XAxis
+                dataKey="volume"
+                type="number"
+                label={{ value: 'Volume (mL)', position: 'insideBottom', offset: -5, fill: '#fff' }}
+                stroke="#fff"
+                tick={{ fill: '#fff' }}
+                domain={['auto', 'auto']}
+                allowDuplicatedCategory={false}
+              />
+              <YAxis
+                domain={['auto', 'auto']}
+                label={{ value: yLabel, angle: -90, position: 'insideLeft', fill: '#fff' }}
+                stroke="#fff"
+                tick={{ fill: '#fff' }}
+                tickFormatter={(v: number) => (Math.abs(v) >= 100 ? v.toFixed(0) : v.toPrecision(2))}
+              />
+              <Tooltip
+                contentStyle={{ backgroundColor: '#1f2937', border: '1px solid #4b5563' }}
+                labelStyle={{ color: '#fff' }}
+              />
+              {activeChartView !== 'derivative' && <ReferenceLine y={0} stroke="#9ca3af" />}
+              {!isChallenge && (
+                <ReferenceLine
+                  x={comparison.theoretical}
+                  stroke="#f472b6"
+                  strokeDasharray="4 4"
+                  label={{ value: 'Eq', position: 'top', fill: '#f472b6', fontSize: 11 }}
+                  ifOverflow="hidden"
+                />
+              )}
+              {comparison.endPoint !== null && (
+                <ReferenceLine
+                  x={comparison.endPoint}
+                  stroke="#facc15"
+                  label={{ value: 'End point', position: 'insideTopLeft', fill: '#facc15', fontSize: 11 }}
+                  ifOverflow="hidden"
+                />
+              )}
+              <Line
+                data={series}
+                type="linear"
+                dataKey="value"
+                name={yLabel}
+                stroke="#06b6d4"
+                strokeWidth={2}
+                dot={activeChartView === 'gran'}
+                isAnimationActive={false}
+              />
+              {activeChartView === 'gran' && curveAnalysis.granLine.length > 0 && (
+                <Line
+                  data={curveAnalysis.granLine}
+                  type="linear"
+                  dataKey="value"
+                  name="Extrapolated fit"
+                  stroke="#facc15"
+                  strokeDasharray="6 3"
+                  strokeWidth={2}
+                  dot={false}
+                  isAnimationActive={false}
+                />
+              )}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+        <div className="mt-3 bg-gray-800 bg-opacity-60 p-3 rounded-lg border border-gray-600 text-xs text-gray-300 space-y-1">
+          <p>
+            Detected end point:{' '}
+            <span className="font-semibold text-yellow-300">
+              {comparison.endPoint !== null ? `${comparison.endPoint.toFixed(2)} mL` : 'not found yet'}
+            </span>
+          </p>
+          {!isChallenge && (
+            <>
+              <p>Theoretical equivalence: {comparison.theoretical.toFixed(2)} mL</p>
+              {comparison.error !== null && (
+                <p>
+                  Difference: {comparison.error >= 0 ? '+' : ''}{comparison.error.toFixed(2)} mL
+                  ({((comparison.error / comparison.theoretical) * 100).toFixed(1)}%)
+                </p>
+              )}
+            </>
+          )}
+          <p className="text-gray-400">
+            {activeChartView === 'derivative' && 'The end point is the peak of the first derivative.'}
+            {activeChartView === 'secondDerivative' && 'The end point is where the second derivative changes sign.'}
+            {activeChartView === 'gran' && `The straight line before the end point is extrapolated to zero${
+              analyte.strength === 'weak' && getProtonCount(analyte) > 1 ? '; only reliable for the first proton' : ''
+            }.`}
+          </p>
+        </div>
+      </>
+    );
+  };
   
   // Memoize position vectors to prevent unnecessary re-renders
   const burettePosition = useMemo(() => new THREE.Vector3(0, 8.5, 0), []);
@@ -1490,8 +2280,9 @@ export default function TitrationSimulator({ isEmbedded = false, onChartOpenChan
           position={burettePosition}
           scale={1.2} // Increased scale for larger world
           liquidLevelRef={buretteLiquidLevelRef}
-          liquidColor="#4488ff"
-          stopcockOpen={buretteStopcockOpen}
+          liquidColor={chemistry.titrantColor}
+          stopcockOpen={buretteStopcockOpen || isDropping}
+          stopcockOpening={isDropping ? 0.1 : stopcockOpening}
           conicalFlaskLiquidLevel={((5 + titrantAdded) / 50) * 100} // Pass conical flask liquid level
           scene={sceneRef.current}
           groupRef={glassmorphismBuretteRef}
@@ -1504,10 +2295,31 @@ export default function TitrationSimulator({ isEmbedded = false, onChartOpenChan
           position={flaskPosition}
           scale={1.2} // Increased scale for larger world
           liquidLevel={((5 + titrantAdded) / 50) * 100}
-          liquidColor={`#${indicatorColor.getHexString()}`}
+          liquidColor={`#${flaskColor.getHexString()}`}
           scene={sceneRef.current}
           groupRef={conicalFlaskRef}
-          stopcockOpen={buretteStopcockOpen} // Pass stopcock state to control stream
+          stopcockOpen={buretteStopcockOpen || isDropping} // Pass stopcock state to control stream
+        />
+      )}
+      {/* Conductivity probe and meter - only shown in conductometric mode */}
+      {sceneReady && sceneRef.current && (
+        <ConductivityProbe
+          position={flaskPosition}
+          scale={1.2}
+          reading={currentConductivity}
+          visible={isConductometric}
+          scene={sceneRef.current}
+        />
+      )}
+      {/* pH probe and meter - shown while the pH meter is in use */}
+      {sceneReady && sceneRef.current && (
+        <PHProbe
+          position={flaskPosition}
+          scale={1.2}
+          reading={meterReading}
+          calibrated={phMeter.calibrated}
+          visible={isPHMeterActive}
+          scene={sceneRef.current}
         />
       )}
       {/* Hide desktop header in full view - use mobile UI instead */}
@@ -1558,16 +2370,42 @@ export default function TitrationSimulator({ isEmbedded = false, onChartOpenChan
                 ⚙️ Config
               </button>
               
+              <button
+                onClick={() => setShowNotebook(!showNotebook)}
+                className="bg-black bg-opacity-70 backdrop-blur-sm text-white px-3 py-2 rounded-lg text-sm shadow-lg"
+              >
+                📓 Notebook
+              </button>
+              
+              <button
+                onClick={() => setShowBuretteReading(!showBuretteReading)}
+                className="bg-black bg-opacity-70 backdrop-blur-sm text-white px-3 py-2 rounded-lg text-sm shadow-lg"
+              >
+                🔍 Read burette
+              </button>
+              
               {/* Status Bar */}
               <div className="bg-black bg-opacity-70 backdrop-blur-sm text-white px-3 py-3 rounded-lg shadow-lg">
                 <div className="space-y-2">
                   <div className="text-center">
-                    <p className="text-xs text-cyan-300">pH</p>
-                    <p className="text-sm font-bold text-cyan-100">{currentPH.toFixed(2)}</p>
+                    <p className="text-xs text-cyan-300">{quantityInfo.label}</p>
+                    <p className="text-sm font-bold text-cyan-100">{formatReading(recordedReading)}</p>
                   </div>
+                  {isConductometric && (
+                    <div className="text-center">
+                      <p className="text-xs text-amber-300">κ</p>
+                      <p className="text-sm font-bold text-amber-100">{currentConductivity.toFixed(2)} mS/cm</p>
+                    </div>
+                  )}
+                  {!showBuretteReading && (
+                    <div className="text-center">
+                      <p className="text-xs text-purple-300">Volume</p>
+                      <p className="text-sm font-bold text-purple-100">{titrantAdded.toFixed(1)} mL</p>
+                    </div>
+                  )}
                   <div className="text-center">
-                    <p className="text-xs text-purple-300">Volume</p>
-                    <p className="text-sm font-bold text-purple-100">{titrantAdded.toFixed(1)} mL</p>
+                    <p className="text-xs text-indigo-300">Burette{buretteFills.length > 1 ? ` (fill ${buretteFills.length})` : ''}</p>
+                    <p className="text-sm font-bold text-indigo-100">{buretteReadout}</p>
                   </div>
                   <div className="text-center">
                     <p className="text-xs text-green-300">Status</p>
@@ -1626,6 +2464,8 @@ export default function TitrationSimulator({ isEmbedded = false, onChartOpenChan
                     <h3 className="font-bold text-yellow-100 mb-2">Titration:</h3>
                     <ul className="space-y-1">
                       <li>• Start button begins titration</li>
+                      <li>• Stopcock slider sets the flow rate</li>
+                      <li>• Add single or half drops near the end point</li>
                       <li>• Watch stopcock rotate when dispensing</li>
                       <li>• Monitor color change as pH shifts</li>
                       <li>• Equipment vibrates realistically</li>
@@ -1701,6 +2541,8 @@ export default function TitrationSimulator({ isEmbedded = false, onChartOpenChan
                 paddingBottom: 'env(safe-area-inset-bottom, 0px)'
               }}
             >
+              <div className="flex flex-col items-center gap-2">
+              <div className="w-72">{buretteControls}</div>
               <div className="flex gap-2">
               <button
                 onClick={toggleDispensing}
@@ -1721,6 +2563,7 @@ export default function TitrationSimulator({ isEmbedded = false, onChartOpenChan
                   <RotateCcw className="w-5 h-5" />
               </button>
             </div>
+            </div>
           </div>
           )}
           
@@ -1783,20 +2626,22 @@ export default function TitrationSimulator({ isEmbedded = false, onChartOpenChan
                 </button>
         </div>
           
-          {data.length > 0 ? (
+          {chartViewTabs}
+          {activeChartView !== 'curve' ? renderAnalysisChart(400) : data.length > 0 ? (
             <ResponsiveContainer width="100%" height={400} key={`chart-${data.length}`}>
               <LineChart data={data} key={`linechart-${data.length}`}>
                 <CartesianGrid strokeDasharray="3 3" stroke="#444" />
                 <XAxis
                   dataKey="volume"
+                  type="number"
                   label={{ value: 'Volume (mL)', position: 'insideBottom', offset: -5, fill: '#fff' }}
                   stroke="#fff"
                   tick={{ fill: '#fff' }}
                   domain={['auto', 'auto']}
                 />
                 <YAxis
-                  domain={[0, 14]}
-                  label={{ value: 'pH', angle: -90, position: 'insideLeft', fill: '#fff' }}
+                  domain={chartQuantityInfo.domain}
+                  label={{ value: chartAxisLabel, angle: -90, position: 'insideLeft', fill: '#fff' }}
                   stroke="#fff"
                   tick={{ fill: '#fff' }}
                 />
@@ -1804,16 +2649,48 @@ export default function TitrationSimulator({ isEmbedded = false, onChartOpenChan
                   contentStyle={{ backgroundColor: '#1f2937', border: '1px solid #4b5563' }}
                   labelStyle={{ color: '#fff' }}
                 />
+                {chartQuantity === 'pH' && (
+                  <ReferenceLine
+                    y={getNeutralPH(temperature)}
+                    stroke="#9ca3af"
+                    strokeDasharray="2 4"
+                    label={{ value: `Neutral (${temperature}°C)`, position: 'insideTopRight', fill: '#9ca3af', fontSize: 10 }}
+                  />
+                )}
+                {!isChallenge && equivalencePoints.map((point, i) => (
+                  <ReferenceLine
+                    key={i}
+                    x={point.volume}
+                    stroke="#f472b6"
+                    strokeDasharray="4 4"
+                    label={{ value: `Eq${equivalencePoints.length > 1 ? ` ${i + 1}` : ''}`, position: 'top', fill: '#f472b6', fontSize: 11 }}
+                    ifOverflow="hidden"
+                  />
+                ))}
                 <Line
                   type="monotone"
-                  dataKey="pH"
-                  stroke="#06b6d4"
+                  dataKey={chartQuantity}
+                  stroke={isConductometric ? "#f59e0b" : "#06b6d4"}
+                  connectNulls
                   strokeWidth={3}
                   dot={false}
                   isAnimationActive={!isRunning}
                   animationDuration={isRunning ? 0 : 300}
                   animationEasing="ease-out"
                 />
+                {chemistry.getReference && (
+                  <Line
+                    type="monotone"
+                    dataKey="referencePH"
+                    name="Unbuffered water"
+                    stroke="#9ca3af"
+                    strokeDasharray="6 4"
+                    connectNulls
+                    strokeWidth={2}
+                    dot={false}
+                    isAnimationActive={false}
+                  />
+                )}
               </LineChart>
             </ResponsiveContainer>
           ) : (
@@ -1826,9 +2703,31 @@ export default function TitrationSimulator({ isEmbedded = false, onChartOpenChan
             <div className="bg-gray-800 bg-opacity-60 p-3 rounded-lg border border-gray-600">
               <h3 className="text-sm font-semibold text-cyan-300 mb-2">Key Points:</h3>
               <ul className="text-xs text-gray-300 space-y-1">
-                <li>• Steep curve = equivalence point region</li>
-                <li>• Color change occurs near pH 8-10</li>
-                <li>• Buffer region shows gradual pH change</li>
+                {isConductometric ? (
+                  <>
+                    <li>• Sharp minimum or kink = equivalence point</li>
+                    <li>• H+ and OH- conduct far better than other ions</li>
+                    <li>• Extrapolate the straight branches to where they meet</li>
+                  </>
+                ) : chemistry.quantity === 'potential' ? (
+                  <>
+                    <li>• Potential jumps sharply at the equivalence point</li>
+                    <li>• {chemistry.colorModel === 'starch' ? 'Starch-iodine blue-black vanishes at the end point' : 'First permanent pink marks the end point'}</li>
+                    <li>• {titrantName} : {analyteFormula} mole ratio is {+chemistry.getMolarRatio(setup, 0).toFixed(3)} : 1</li>
+                  </>
+                ) : isBuffer ? (
+                  <>
+                    <li>• Buffer holds pH near pKa while both HA and A- remain</li>
+                    <li>• Dashed grey line: the same additions into unbuffered water</li>
+                    <li>• Capacity is greatest at pH = pKa and collapses once one component is used up</li>
+                  </>
+                ) : (
+                  <>
+                    <li>• Steep curve = equivalence point region</li>
+                    <li>• {indicator.name} changes color near pH {indicatorAssessment.stage.lowPH}–{indicatorAssessment.stage.highPH}</li>
+                    <li>• Buffer region shows gradual pH change</li>
+                  </>
+                )}
               </ul>
             </div>
             
@@ -1836,7 +2735,16 @@ export default function TitrationSimulator({ isEmbedded = false, onChartOpenChan
               <div className="bg-gray-800 bg-opacity-60 p-3 rounded-lg border border-gray-600">
                 <h3 className="text-sm font-semibold text-purple-300 mb-2">Current Data:</h3>
                 <p className="text-xs text-gray-300">Points collected: {data.length}</p>
-                <p className="text-xs text-gray-300">pH range: {Math.min(...data.map(d => d.pH)).toFixed(1)} - {Math.max(...data.map(d => d.pH)).toFixed(1)}</p>
+                {(isConductometric ? [chemistry.quantity, 'conductivity' as const] : [chemistry.quantity]).map(quantity => {
+                  const values = data.map(d => d[quantity]).filter((v): v is number => v !== undefined);
+                  if (values.length === 0) return null;
+                  const info = QUANTITY_INFO[quantity];
+                  return (
+                    <p key={quantity} className="text-xs text-gray-300">
+                      {info.label} range: {Math.min(...values).toFixed(info.decimals)} - {Math.max(...values).toFixed(info.decimals)}{info.unit ? ` ${info.unit}` : ''}
+                    </p>
+                  );
+                })}
               </div>
             )}
           </div>
@@ -1845,6 +2753,233 @@ export default function TitrationSimulator({ isEmbedded = false, onChartOpenChan
         )}
       </div>
       
+      {/* Burette Reading Panel - floats over the scene so the camera can still be moved for parallax */}
+      {showBuretteReading && (
+        <div className="force-mobile-ui absolute top-4 left-4 z-40 w-80 max-h-[90%] overflow-y-auto bg-black bg-opacity-85 backdrop-blur-md p-4 rounded-lg border border-cyan-500 border-opacity-50 shadow-lg">
+          <div className="flex justify-between items-center mb-3">
+            <h2 className="text-lg font-bold text-cyan-300">Read the Burette</h2>
+            <button
+              onClick={() => setShowBuretteReading(false)}
+              className="text-white text-2xl hover:text-cyan-400"
+            >
+              ×
+            </button>
+          </div>
+          
+          <div className="flex justify-center mb-2">
+            <BuretteReadingLens
+              reading={buretteReading}
+              parallax={parallax}
+              elevation={eyeElevation}
+              liquidColor={chemistry.titrantColor}
+              capacity={BURETTE_CAPACITY}
+            />
+          </div>
+          
+          <div className={`p-2 rounded-lg border text-xs mb-3 ${
+            isEyeLevel ? 'bg-green-900 bg-opacity-50 border-green-600 text-green-200' : 'bg-yellow-900 bg-opacity-50 border-yellow-600 text-yellow-200'
+          }`}>
+            {isEyeLevel
+              ? 'Eye level with the meniscus - no parallax'
+              : `Eye ${Math.abs(eyeElevation * 180 / Math.PI).toFixed(1)}° ${eyeElevation > 0 ? 'above' : 'below'} the meniscus: the scale appears shifted by ${parallax >= 0 ? '+' : ''}${parallax.toFixed(2)} mL`}
+            {!isEyeLevel && (
+              <button
+                onClick={levelEyeWithMeniscus}
+                className="block mt-1 underline hover:text-white"
+              >
+                Move my eye level with the meniscus
+              </button>
+            )}
+          </div>
+          
+          <label className="block text-xs text-cyan-200 mb-1">
+            Bottom of the meniscus (mL, to 2 d.p. ending in 0 or 5)
+          </label>
+          <input
+            type="number"
+            step="0.05"
+            min="0"
+            max={BURETTE_CAPACITY}
+            value={buretteReadingInput}
+            onChange={(e) => setBuretteReadingInput(e.target.value)}
+            placeholder="e.g. 23.45"
+            className="w-full p-2 bg-gray-900 text-white border border-cyan-500 border-opacity-50 rounded-lg text-sm mb-2"
+          />
+          <div className="grid grid-cols-2 gap-2 mb-3">
+            <button
+              onClick={() => recordBuretteReading('initial')}
+              disabled={isRunning || buretteReadingInput === '' || titrantAdded > currentFill.startVolume}
+              className="bg-indigo-600 hover:bg-indigo-700 disabled:opacity-40 text-white text-xs px-2 py-2 rounded-lg"
+            >
+              Record initial reading
+            </button>
+            <button
+              onClick={() => recordBuretteReading('final')}
+              disabled={isRunning || buretteReadingInput === ''}
+              className="bg-indigo-600 hover:bg-indigo-700 disabled:opacity-40 text-white text-xs px-2 py-2 rounded-lg"
+            >
+              Record final reading
+            </button>
+          </div>
+          
+          {buretteFills.map((fill, i) => (
+            <div key={i} className="text-xs text-gray-300 mb-2">
+              {buretteFills.length > 1 && <p className="text-cyan-300">Fill {i + 1}</p>}
+              {([['Initial', fill.initialRead], ['Final', fill.finalRead]] as [string, BuretteReadingEntry | undefined][]).map(([label, entry]) => {
+                if (!entry) return <p key={label}>{label}: not read</p>;
+                const check = checkReading(entry);
+                return (
+                  <p key={label}>
+                    {label}: {entry.entered.toFixed(2)} mL{' '}
+                    <span className={check.verdict === 'good' ? 'text-green-300' : 'text-red-300'}>
+                      {check.verdict === 'good'
+                        ? '✓ within ±0.05 mL'
+                        : check.verdict === 'parallax'
+                          ? `✗ parallax error (${check.error >= 0 ? '+' : ''}${check.error.toFixed(2)} mL) - read at eye level`
+                          : `✗ off by ${check.error >= 0 ? '+' : ''}${check.error.toFixed(2)} mL - read the bottom of the meniscus`}
+                    </span>
+                  </p>
+                );
+              })}
+            </div>
+          ))}
+          
+          {readTitre && readResult ? (
+            <div className="bg-indigo-900 bg-opacity-60 p-3 rounded-lg border border-indigo-500 text-xs text-cyan-200 space-y-1">
+              <p className="font-semibold">From your readings:</p>
+              <p>
+                Titre = {readTitre.titre.toFixed(2)} ± {readTitre.uncertainty.toFixed(2)} mL
+                ({buretteFills.length * 2} readings × ±{READING_UNCERTAINTY.toFixed(2)} mL = ±{readResult.percentUncertainty.toFixed(2)}%)
+              </p>
+              <p>
+                c({analyteFormula}) = {readResult.concentration.toFixed(4)} ± {readResult.uncertainty.toFixed(4)} mol/L
+              </p>
+              {acceptedConcentration !== null && !isChallenge && (
+                <p>
+                  Percentage error vs accepted {acceptedConcentration.toFixed(4)} mol/L:{' '}
+                  {getPercentageError(readResult.concentration, acceptedConcentration) >= 0 ? '+' : ''}
+                  {getPercentageError(readResult.concentration, acceptedConcentration).toFixed(2)}%
+                  {Math.abs(getPercentageError(readResult.concentration, acceptedConcentration)) <= readResult.percentUncertainty
+                    ? ' (within the reading uncertainty)'
+                    : ' (larger than the reading uncertainty: check the end point)'}
+                </p>
+              )}
+            </div>
+          ) : (
+            <p className="text-xs text-gray-400">
+              Record an initial and a final reading for each burette fill to work out the concentration and its uncertainty.
+            </p>
+          )}
+        </div>
+      )}
+      
+      {/* Lab Notebook Overlay - trials, concordant titres and computed concentration */}
+      {showNotebook && (
+        <div className="force-mobile-ui absolute inset-0 z-50 bg-black bg-opacity-75 backdrop-blur-sm">
+          <div className="h-full bg-black bg-opacity-90 backdrop-blur-md p-4 sm:p-6 overflow-y-auto">
+            <div className="flex justify-between items-center mb-6">
+              <h2 className="text-xl font-bold text-cyan-300">Lab Notebook</h2>
+              <button
+                onClick={() => setShowNotebook(false)}
+                className="text-white text-2xl hover:text-cyan-400"
+              >
+                ×
+              </button>
+            </div>
+            
+            <div className="flex flex-wrap gap-2 mb-4">
+              <button
+                onClick={recordTrial}
+                disabled={isRunning || titrantAdded <= 0 || (showBuretteReading && !readTitre)}
+                className="bg-green-600 hover:bg-green-700 disabled:opacity-40 text-white text-sm px-3 py-2 rounded-lg"
+              >
+                {showBuretteReading
+                  ? readTitre ? `Record trial (titre ${readTitre.titre.toFixed(2)} ± ${readTitre.uncertainty.toFixed(2)} mL)` : 'Record trial (read both ends of every fill first)'
+                  : `Record trial (${buretteReadout} reading)`}
+              </button>
+              <button
+                onClick={exportNotebook}
+                disabled={notebook.length === 0}
+                className="bg-cyan-700 hover:bg-cyan-600 disabled:opacity-40 text-white text-sm px-3 py-2 rounded-lg"
+              >
+                Export CSV
+              </button>
+              <button
+                onClick={() => setNotebook([])}
+                disabled={notebook.length === 0}
+                className="bg-gray-600 hover:bg-gray-700 disabled:opacity-40 text-white text-sm px-3 py-2 rounded-lg"
+              >
+                Clear notebook
+              </button>
+            </div>
+            
+            {notebook.length > 0 ? (
+              <table className="w-full text-xs text-gray-300">
+                <thead>
+                  <tr className="text-gray-400 border-b border-gray-700">
+                    <th className="text-left font-normal py-1">Trial</th>
+                    <th className="text-right font-normal">Initial (mL)</th>
+                    <th className="text-right font-normal">Final (mL)</th>
+                    <th className="text-right font-normal">Titre (mL)</th>
+                    <th className="text-right font-normal">End pH</th>
+                    <th className="text-left font-normal pl-2">Indicator</th>
+                    <th className="text-center font-normal">Rough</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {notebook.map((trial, i) => {
+                    const isConcordant = notebookSummary.concordantTrialIds.includes(trial.id);
+                    return (
+                      <tr key={trial.id} className={`border-b border-gray-800 ${isConcordant ? 'text-green-300' : ''}`}>
+                        <td className="py-1">{trial.isRough ? 'Rough' : i + 1}{isConcordant ? ' ✓' : ''}</td>
+                        <td className="text-right">{trial.fills.map(f => f.initialReading.toFixed(2)).join(' / ')}</td>
+                        <td className="text-right">{trial.fills.map(f => (f.finalReading ?? f.initialReading).toFixed(2)).join(' / ')}</td>
+                        <td className="text-right font-semibold">
+                          {trial.titre.toFixed(2)}{trial.titreUncertainty !== null ? ` ± ${trial.titreUncertainty.toFixed(2)}` : ''}
+                        </td>
+                        <td className="text-right">{trial.endPointPH.toFixed(2)}</td>
+                        <td className="pl-2">{trial.indicatorName}</td>
+                        <td className="text-center">
+                          <input
+                            type="checkbox"
+                            checked={trial.isRough}
+                            onChange={() => toggleRough(trial.id)}
+                            className="accent-cyan-500"
+                          />
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            ) : (
+              <div className="h-32 flex items-center justify-center text-gray-400 border border-gray-600 rounded-lg text-sm text-center px-4">
+                Titrate to the end point, then record the trial. The first trial is marked as the rough titration.
+              </div>
+            )}
+            
+            <div className="mt-6 bg-indigo-900 bg-opacity-60 p-3 rounded-lg border border-indigo-500 shadow-inner">
+              {notebookSummary.meanTitre !== null ? (
+                <>
+                  <p className="text-sm text-cyan-200">
+                    <strong>Mean concordant titre:</strong> {notebookSummary.meanTitre.toFixed(2)} mL ({notebookSummary.concordantTrialIds.length} trials)
+                  </p>
+                  {!isChallenge && (
+                    <p className="text-sm text-cyan-200">
+                      <strong>Analyte concentration:</strong> {notebookSummary.analyteConcentration!.toFixed(4)} mol/L
+                    </p>
+                  )}
+                </>
+              ) : (
+                <p className="text-sm text-cyan-200">
+                  Repeat until two accurate titres agree within {CONCORDANCE_TOLERANCE.toFixed(2)} mL.
+                </p>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+      
       {/* Mobile Configuration Overlay - Always use mobile overlay style */}
       {showConfig && (
         <div className={`${isEmbedded ? 'force-mobile-ui absolute' : 'force-mobile-ui absolute'} inset-0 z-50 bg-black bg-opacity-75 backdrop-blur-sm`}>
@@ -1860,24 +2995,423 @@ export default function TitrationSimulator({ isEmbedded = false, onChartOpenChan
             </div>
             
             <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-cyan-200 mb-2">
+                  Titration type
+                </label>
+                <select
+                  value={chemistryId}
+                  onChange={(e) => selectChemistry(e.target.value as ChemistryId)}
+                  className="w-full p-3 bg-gray-900 text-white border border-cyan-500 border-opacity-50 rounded-lg focus:border-cyan-400 focus:outline-none"
+                  disabled={isRunning || titrantAdded > 0}
+                >
+                  {CHEMISTRIES.map(c => (
+                    <option key={c.id} value={c.id}>{c.name}</option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-400 mt-1">{chemistry.description}</p>
+              </div>
+              
+              {isAcidBase && (
+              <>
               <div>
                 <label className="block text-sm font-medium text-cyan-200 mb-2">
                   Analyte (in flask)
                 </label>
                 <select
-                  value={solutionType}
-                  onChange={(e) => setSolutionType(e.target.value)}
+                  value={analyteId}
+                  onChange={(e) => {
+                    const selected = getAnalyte(e.target.value);
+                    setAnalyteId(selected.id);
+                    setAnalytePKs([...(selected.pKs ?? [])]);
+                  }}
                   className="w-full p-3 bg-gray-900 text-white border border-cyan-500 border-opacity-50 rounded-lg focus:border-cyan-400 focus:outline-none"
                   disabled={isRunning || titrantAdded > 0}
                 >
-                  <option value="acid">Acid (HCl)</option>
-                  <option value="base">Base (NaOH)</option>
+                  <optgroup label="Acids">
+                    {ANALYTES.filter(a => a.type === 'acid').map(a => (
+                      <option key={a.id} value={a.id}>
+                        {a.name} ({a.formula}){a.strength === 'weak' ? ` - pKa ${a.pKs?.map(pK => pK.toFixed(2)).join(', ')}` : ' - strong'}
+                      </option>
+                    ))}
+                  </optgroup>
+                  <optgroup label="Bases">
+                    {ANALYTES.filter(a => a.type === 'base').map(a => (
+                      <option key={a.id} value={a.id}>
+                        {a.name} ({a.formula}){a.strength === 'weak' ? ` - pKb ${a.pKs?.map(pK => pK.toFixed(2)).join(', ')}` : ' - strong'}
+                      </option>
+                    ))}
+                  </optgroup>
                 </select>
               </div>
               
+              {analyte.strength === 'weak' && analytePKs.map((pK, i) => (
+                <div key={i}>
+                  <label className="block text-sm font-medium text-cyan-200 mb-2">
+                    {analyte.type === 'acid' ? 'pKa' : 'pKb'}{analytePKs.length > 1 ? `${i + 1}` : ''}: {pK.toFixed(2)} ({analyte.type === 'acid' ? 'Ka' : 'Kb'} = {Math.pow(10, -pK).toExponential(2)})
+                  </label>
+                  <input
+                    type="range"
+                    min="1"
+                    max="13"
+                    step="0.01"
+                    value={pK}
+                    onChange={(e) => {
+                      const next = [...analytePKs];
+                      next[i] = parseFloat(e.target.value);
+                      setAnalytePKs(next);
+                    }}
+                    className="w-full accent-cyan-500"
+                    disabled={isRunning || titrantAdded > 0}
+                  />
+                </div>
+              ))}
+              
+              </>
+              )}
+              
+              {isBackTitration ? (
+              <>
+                <div>
+                  <label className="block text-sm font-medium text-cyan-200 mb-2">
+                    CaCO3 sample mass: {backTitrationSample.sampleMass.toFixed(3)} g
+                  </label>
+                  <input
+                    type="range"
+                    min="0.1"
+                    max="1"
+                    step="0.005"
+                    value={backTitrationSample.sampleMass}
+                    onChange={(e) => setBackTitrationSample(prev => ({ ...prev, sampleMass: parseFloat(e.target.value) }))}
+                    className="w-full accent-cyan-500"
+                    disabled={backTitrationSample.reagentAdded}
+                  />
+                </div>
+                
+                <div>
+                  <label className="block text-sm font-medium text-cyan-200 mb-2">
+                    Excess HCl: {backTitrationSample.reagentVolume} mL of {backTitrationSample.reagentConc} M
+                  </label>
+                  <input
+                    type="range"
+                    min="10"
+                    max="50"
+                    step="5"
+                    value={backTitrationSample.reagentVolume}
+                    onChange={(e) => setBackTitrationSample(prev => ({ ...prev, reagentVolume: parseFloat(e.target.value) }))}
+                    className="w-full accent-cyan-500"
+                    disabled={backTitrationSample.reagentAdded}
+                  />
+                  <input
+                    type="range"
+                    min="0.1"
+                    max="2"
+                    step="0.05"
+                    value={backTitrationSample.reagentConc}
+                    onChange={(e) => setBackTitrationSample(prev => ({ ...prev, reagentConc: parseFloat(e.target.value) }))}
+                    className="w-full accent-cyan-500"
+                    disabled={backTitrationSample.reagentAdded}
+                  />
+                </div>
+                
+                {backTitrationMoles.excess <= 0 && (
+                  <div className="bg-red-900 bg-opacity-50 p-3 rounded-lg border border-red-600 text-xs text-red-200">
+                    Not enough acid: the HCl must be in excess to dissolve all the CaCO3.
+                  </div>
+                )}
+                
+                <button
+                  onClick={addExcessReagent}
+                  disabled={backTitrationSample.reagentAdded || backTitrationMoles.excess <= 0}
+                  className="w-full bg-indigo-600 hover:bg-indigo-700 disabled:opacity-40 text-white text-sm px-3 py-2 rounded-lg"
+                >
+                  {backTitrationSample.reagentAdded ? 'Excess HCl added - titrate with NaOH' : 'Step 1: add excess HCl to the sample'}
+                </button>
+                
+                {backTitrationSample.reagentAdded && !isChallenge && (
+                  <div className="bg-indigo-900 bg-opacity-60 p-3 rounded-lg border border-indigo-500 text-xs text-cyan-200 space-y-1">
+                    <p className="font-semibold">Back-titration calculation (at the equivalence point):</p>
+                    <p>1. n(HCl) added = {backTitrationSample.reagentConc} × {(backTitrationSample.reagentVolume / 1000).toFixed(3)} = {backTitrationMoles.added.toExponential(3)} mol</p>
+                    <p>2. n(HCl) in excess = n(NaOH) = {titrantConc} × {(solutionTitre / 1000).toFixed(5)} = {solutionTitrantMoles.toExponential(3)} mol</p>
+                    <p>3. n(HCl) reacted = {(backTitrationMoles.added - solutionTitrantMoles).toExponential(3)} mol</p>
+                    <p>4. n(CaCO3) = reacted ÷ 2 = {((backTitrationMoles.added - solutionTitrantMoles) / 2).toExponential(3)} mol</p>
+                    <p>5. m(CaCO3) = n × {CACO3_MOLAR_MASS} g/mol = {(((backTitrationMoles.added - solutionTitrantMoles) / 2) * CACO3_MOLAR_MASS).toFixed(3)} g</p>
+                  </div>
+                )}
+              </>
+              ) : isStandardisation ? (
+              <>
+                <div>
+                  <label className="block text-sm font-medium text-cyan-200 mb-2">
+                    Primary standard
+                  </label>
+                  <select
+                    value={standardPrep.standardId}
+                    onChange={(e) => startPreparation(e.target.value as PrimaryStandardId)}
+                    className="w-full p-3 bg-gray-900 text-white border border-cyan-500 border-opacity-50 rounded-lg focus:border-cyan-400 focus:outline-none"
+                    disabled={standardPrep.stage !== 'weigh'}
+                  >
+                    {PRIMARY_STANDARDS.map(standard => (
+                      <option key={standard.id} value={standard.id}>
+                        {standard.name} ({standard.formula}, M = {standard.molarMass} g/mol)
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                
+                {standardPrep.stage === 'weigh' && (
+                <div className="bg-gray-800 bg-opacity-60 p-3 rounded-lg border border-gray-600 space-y-2">
+                  <p className="text-sm font-semibold text-cyan-300">Step 1: weigh the standard</p>
+                  <p className="text-xs text-gray-400">
+                    About {getSuggestedMass(getPrimaryStandard(standardPrep.standardId)).toFixed(2)} g in {standardPrep.flaskVolume} mL gives a titre near 25 mL with ≈{NOMINAL_TITRANT_CONC} M titrant
+                  </p>
+                  <div className="bg-gray-900 border border-gray-500 rounded-lg p-3 text-center">
+                    <p className="text-xs text-gray-400">Balance (±{BALANCE_READABILITY} g)</p>
+                    <p className="text-2xl font-mono text-green-300">{standardMass.toFixed(3)} g</p>
+                  </div>
+                  <input
+                    type="range"
+                    min="0.5"
+                    max="8"
+                    step="0.001"
+                    value={standardMass}
+                    onChange={(e) => setStandardMass(parseFloat(e.target.value))}
+                    className="w-full accent-cyan-500"
+                  />
+                  <label className="flex items-center gap-2 text-xs text-cyan-200">
+                    <input
+                      type="checkbox"
+                      checked={rinsedBoat}
+                      onChange={(e) => setRinsedBoat(e.target.checked)}
+                      className="accent-cyan-500"
+                    />
+                    Rinse the weighing boat into the flask with distilled water
+                  </label>
+                  <button
+                    onClick={() => setStandardPrep(prev => weighStandard(prev, standardMass, rinsedBoat))}
+                    className="w-full bg-indigo-600 hover:bg-indigo-700 text-white text-sm px-3 py-2 rounded-lg"
+                  >
+                    Transfer to the {standardPrep.flaskVolume} mL volumetric flask
+                  </button>
+                </div>
+                )}
+                
+                {standardPrep.stage === 'dissolve' && (
+                <div className="bg-gray-800 bg-opacity-60 p-3 rounded-lg border border-gray-600 space-y-2">
+                  <p className="text-sm font-semibold text-cyan-300">Step 2: dissolve and make up to the mark</p>
+                  {renderLevelGauge(flaskFillLevel, 'Bottom of the meniscus')}
+                  <div className="grid grid-cols-3 gap-2">
+                    <button
+                      onClick={() => setFlaskFillLevel(prev => prev + 1)}
+                      className="bg-cyan-700 hover:bg-cyan-600 text-white text-xs px-2 py-1 rounded"
+                    >
+                      + 1 mL
+                    </button>
+                    <button
+                      onClick={() => setFlaskFillLevel(prev => prev + randomDrop(0.2))}
+                      className="bg-cyan-700 hover:bg-cyan-600 text-white text-xs px-2 py-1 rounded"
+                    >
+                      + squirt
+                    </button>
+                    <button
+                      onClick={() => setFlaskFillLevel(prev => prev + randomDrop(0.05))}
+                      className="bg-cyan-700 hover:bg-cyan-600 text-white text-xs px-2 py-1 rounded"
+                    >
+                      + 1 drop
+                    </button>
+                  </div>
+                  <button
+                    onClick={() => setStandardPrep(prev => makeUpToMark(prev, flaskFillLevel))}
+                    className="w-full bg-indigo-600 hover:bg-indigo-700 text-white text-sm px-3 py-2 rounded-lg"
+                  >
+                    Stopper and invert to mix
+                  </button>
+                  {flaskFillLevel > 0.025 && (
+                    <p className="text-xs text-red-300">Overshot the mark: the solution is now more dilute than recorded. Start again for an accurate result.</p>
+                  )}
+                </div>
+                )}
+                
+                {standardPrep.stage === 'pipette' && (
+                <div className="bg-gray-800 bg-opacity-60 p-3 rounded-lg border border-gray-600 space-y-2">
+                  <p className="text-sm font-semibold text-cyan-300">Step 3: pipette {standardPrep.pipetteVolume} mL into the conical flask</p>
+                  {renderLevelGauge(pipetteFillLevel, 'Pipette meniscus')}
+                  <div className="grid grid-cols-3 gap-2">
+                    <button
+                      onClick={() => setPipetteFillLevel(prev => prev + 0.5)}
+                      className="bg-cyan-700 hover:bg-cyan-600 text-white text-xs px-2 py-1 rounded"
+                    >
+                      Draw up
+                    </button>
+                    <button
+                      onClick={() => setPipetteFillLevel(prev => prev - randomDrop(0.1))}
+                      className="bg-cyan-700 hover:bg-cyan-600 text-white text-xs px-2 py-1 rounded"
+                    >
+                      Release
+                    </button>
+                    <button
+                      onClick={() => setPipetteFillLevel(prev => prev - randomDrop(0.02))}
+                      className="bg-cyan-700 hover:bg-cyan-600 text-white text-xs px-2 py-1 rounded"
+                    >
+                      Release 1 drop
+                    </button>
+                  </div>
+                  <button
+                    onClick={() => setStandardPrep(prev => pipetteAliquot(prev, pipetteFillLevel))}
+                    className="w-full bg-indigo-600 hover:bg-indigo-700 text-white text-sm px-3 py-2 rounded-lg"
+                  >
+                    Deliver the aliquot
+                  </button>
+                </div>
+                )}
+                
+                {standardPrep.stage === 'ready' && (
+                  <p className="text-sm text-green-300">Aliquot in the conical flask - titrate with {titrantName} (≈{NOMINAL_TITRANT_CONC} M, to be standardised)</p>
+                )}
+                
+                {standardRecordedMoles !== null && (
+                  <div className="bg-indigo-900 bg-opacity-60 p-3 rounded-lg border border-indigo-500 text-xs text-cyan-200 space-y-1">
+                    <p className="font-semibold">Standardisation calculation (recorded values):</p>
+                    <p>
+                      1. n({getPrimaryStandard(standardPrep.standardId).formula}) in flask = {standardPrep.balanceReading!.toFixed(3)} g ÷ {getPrimaryStandard(standardPrep.standardId).molarMass} g/mol
+                      = {(standardRecordedMoles * standardPrep.flaskVolume / standardPrep.pipetteVolume).toExponential(3)} mol
+                    </p>
+                    <p>2. n in aliquot = × {standardPrep.pipetteVolume}/{standardPrep.flaskVolume} = {standardRecordedMoles.toExponential(3)} mol</p>
+                    {standardisedConc !== null && (
+                      <>
+                        <p>
+                          3. c({titrantName}) = n × {+solutionMolarRatio.toFixed(3)} ÷ {(standardisationTitre / 1000).toFixed(5)} L
+                          = {standardisedConc.toFixed(4)} mol/L{readTitre ? ' (titre from your burette readings)' : ''}
+                        </p>
+                        <p>
+                          True concentration: {standardPrep.titrantConc.toFixed(4)} mol/L
+                          ({getPercentageError(standardisedConc, standardPrep.titrantConc) >= 0 ? '+' : ''}{getPercentageError(standardisedConc, standardPrep.titrantConc).toFixed(2)}%)
+                        </p>
+                      </>
+                    )}
+                    {standardErrorBudget && (
+                      <>
+                        <p className="font-semibold mt-2">Where the moles in the flask differ from the recorded value:</p>
+                        <p>Mass transferred: {standardErrorBudget.mass >= 0 ? '+' : ''}{standardErrorBudget.mass.toFixed(3)}%</p>
+                        <p>Volumetric flask (±{VOLUMETRIC_FLASK_TOLERANCE} mL, fill): {standardErrorBudget.dilution >= 0 ? '+' : ''}{standardErrorBudget.dilution.toFixed(3)}%</p>
+                        <p>Pipette (±{PIPETTE_TOLERANCE} mL, fill): {standardErrorBudget.pipette >= 0 ? '+' : ''}{standardErrorBudget.pipette.toFixed(3)}%</p>
+                        <p>Total: {standardErrorBudget.total >= 0 ? '+' : ''}{standardErrorBudget.total.toFixed(3)}%</p>
+                      </>
+                    )}
+                  </div>
+                )}
+                
+                <button
+                  onClick={() => {
+                    startPreparation(standardPrep.standardId);
+                    reset();
+                  }}
+                  disabled={isRunning}
+                  className="w-full bg-gray-600 hover:bg-gray-700 disabled:opacity-40 text-white text-sm px-3 py-2 rounded-lg"
+                >
+                  Start the preparation again
+                </button>
+              </>
+              ) : (
+              <>
+              {isBuffer ? (
+              <>
+                <div>
+                  <label className="block text-sm font-medium text-cyan-200 mb-2">
+                    Weak acid
+                  </label>
+                  <select
+                    value={bufferAcid.id}
+                    onChange={(e) => {
+                      const selected = getAnalyte(e.target.value);
+                      setAnalyteId(selected.id);
+                      setAnalytePKs([...(selected.pKs ?? [])]);
+                    }}
+                    className="w-full p-3 bg-gray-900 text-white border border-cyan-500 border-opacity-50 rounded-lg focus:border-cyan-400 focus:outline-none"
+                    disabled={isRunning || titrantAdded > 0}
+                  >
+                    {ANALYTES.filter(a => a.type === 'acid' && a.strength === 'weak').map(a => (
+                      <option key={a.id} value={a.id}>
+                        {a.name} ({a.formula}) - pKa {a.pKs?.map(pK => pK.toFixed(2)).join(', ')}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                
+                <div>
+                  <label className="block text-sm font-medium text-cyan-200 mb-2">
+                    Weak acid {bufferAcid.formula}: {bufferRecipe.acidConc.toFixed(2)} M
+                  </label>
+                  <input
+                    type="range"
+                    min="0"
+                    max="0.5"
+                    step="0.01"
+                    value={bufferRecipe.acidConc}
+                    onChange={(e) => setBufferRecipe(prev => ({ ...prev, acidConc: parseFloat(e.target.value) }))}
+                    className="w-full accent-cyan-500"
+                    disabled={isRunning || titrantAdded > 0}
+                  />
+                </div>
+                
+                <div>
+                  <label className="block text-sm font-medium text-cyan-200 mb-2">
+                    Conjugate base (sodium salt): {bufferRecipe.baseConc.toFixed(2)} M
+                  </label>
+                  <input
+                    type="range"
+                    min="0"
+                    max="0.5"
+                    step="0.01"
+                    value={bufferRecipe.baseConc}
+                    onChange={(e) => setBufferRecipe(prev => ({ ...prev, baseConc: parseFloat(e.target.value) }))}
+                    className="w-full accent-cyan-500"
+                    disabled={isRunning || titrantAdded > 0}
+                  />
+                </div>
+                
+                <div>
+                  <label className="block text-sm font-medium text-cyan-200 mb-2">
+                    Burette contents
+                  </label>
+                  <div className="grid grid-cols-2 gap-2">
+                    {(['acid', 'base'] as const).map(addition => (
+                      <button
+                        key={addition}
+                        onClick={() => setBufferRecipe(prev => ({ ...prev, addition }))}
+                        disabled={isRunning || titrantAdded > 0}
+                        className={`px-3 py-2 rounded-lg text-sm transition disabled:opacity-40 ${
+                          bufferRecipe.addition === addition ? 'bg-cyan-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                        }`}
+                      >
+                        {addition === 'acid' ? 'Strong acid (HCl)' : 'Strong base (NaOH)'}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                
+                <div className="bg-indigo-900 bg-opacity-60 p-3 rounded-lg border border-indigo-500 text-xs text-cyan-200 space-y-1">
+                  <p className="font-semibold">Buffer pH before any additions:</p>
+                  <p>
+                    Henderson–Hasselbalch: pH = pKa + log([A-]/[HA]) ={' '}
+                    {bufferRecipe.acidConc > 0 && bufferRecipe.baseConc > 0
+                      ? (bufferAcid.pKs![0] + Math.log10(bufferRecipe.baseConc / bufferRecipe.acidConc)).toFixed(2)
+                      : 'undefined'}
+                  </p>
+                  <p>Full equilibrium: pH = {chemistry.measure(setup, 0).toFixed(2)}</p>
+                  {currentCapacity && (
+                    <p>Buffer capacity now: β = {currentCapacity.buffer.toExponential(2)} mol/(L·pH) (water: {currentCapacity.water.toExponential(2)})</p>
+                  )}
+                </div>
+              </>
+              ) : isChallenge ? (
+                <p className="text-sm font-medium text-cyan-200">
+                  {analyteFormula} concentration: <span className="text-yellow-300">unknown (challenge {challenge!.seed})</span>
+                </p>
+              ) : (
               <div>
                 <label className="block text-sm font-medium text-cyan-200 mb-2">
-                  Concentration: {solutionConc} M
+                  {analyteFormula} concentration: {solutionConc} M
                 </label>
                 <input
                   type="range"
@@ -1890,6 +3424,7 @@ export default function TitrationSimulator({ isEmbedded = false, onChartOpenChan
                   disabled={isRunning || titrantAdded > 0}
                 />
               </div>
+              )}
               
               <div>
                 <label className="block text-sm font-medium text-cyan-200 mb-2">
@@ -1907,26 +3442,186 @@ export default function TitrationSimulator({ isEmbedded = false, onChartOpenChan
                 />
               </div>
               
+              </>
+              )}
+              
+              {isAcidBaseModel && (
+              <div>
+                <label className="block text-sm font-medium text-cyan-200 mb-2">
+                  Measurement
+                </label>
+                <div className="grid grid-cols-2 gap-2">
+                  {([['ph', 'pH (indicator)'], ['conductivity', 'Conductometric']] as [MeasurementMode, string][]).map(([mode, label]) => (
+                    <button
+                      key={mode}
+                      onClick={() => setMeasurementMode(mode)}
+                      className={`px-3 py-2 rounded-lg text-sm transition ${
+                        measurementMode === mode ? 'bg-cyan-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+                {isConductometric && (
+                  <p className="text-xs text-gray-400 mt-1">
+                    A conductivity probe replaces the indicator; the end point is where the conductivity curve changes slope
+                  </p>
+                )}
+              </div>
+              )}
+              
+              {chemistry.quantity === 'pH' && (
+              <div className="bg-gray-800 bg-opacity-60 p-3 rounded-lg border border-gray-600 space-y-3">
+                <label className="flex items-center gap-2 text-sm font-medium text-cyan-200">
+                  <input
+                    type="checkbox"
+                    checked={phMeter.enabled}
+                    onChange={(e) => {
+                      const enabled = e.target.checked;
+                      // Start the display at the current reading rather than sweeping from the last one
+                      laggedPHRef.current = indicatedPH;
+                      setMeterReading(indicatedPH);
+                      setPHMeter(prev => ({ ...prev, enabled }));
+                    }}
+                    className="accent-cyan-500"
+                  />
+                  Use pH meter (chart records the meter reading)
+                </label>
+                
+                {phMeter.enabled && (
+                <>
+                  <div>
+                    <label className="block text-xs text-cyan-200 mb-1">
+                      Response time: {phMeter.responseTime.toFixed(1)} s
+                    </label>
+                    <input
+                      type="range"
+                      min="0"
+                      max="10"
+                      step="0.5"
+                      value={phMeter.responseTime}
+                      onChange={(e) => setPHMeter(prev => ({ ...prev, responseTime: parseFloat(e.target.value) }))}
+                      className="w-full accent-cyan-500"
+                    />
+                  </div>
+                  
+                  <div>
+                    <label className="block text-xs text-cyan-200 mb-1">
+                      Noise: ±{phMeter.noise.toFixed(3)} pH
+                    </label>
+                    <input
+                      type="range"
+                      min="0"
+                      max="0.1"
+                      step="0.005"
+                      value={phMeter.noise}
+                      onChange={(e) => setPHMeter(prev => ({ ...prev, noise: parseFloat(e.target.value) }))}
+                      className="w-full accent-cyan-500"
+                    />
+                  </div>
+                  
+                  <div>
+                    <p className="text-xs text-cyan-200 mb-1">
+                      Calibration: rinse the probe and measure two or three standard buffers
+                    </p>
+                    <div className="grid grid-cols-3 gap-2">
+                      {CALIBRATION_BUFFERS.map(bufferPH => {
+                        const point = phMeter.calibrationPoints.find(p => p.bufferPH === bufferPH);
+                        return (
+                          <button
+                            key={bufferPH}
+                            onClick={() => setPHMeter(prev => addCalibrationPoint(prev, bufferPH, temperature))}
+                            disabled={isRunning}
+                            className={`px-2 py-2 rounded-lg text-xs transition disabled:opacity-40 ${
+                              point ? 'bg-indigo-700 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                            }`}
+                          >
+                            pH {bufferPH.toFixed(2)}
+                            <br />
+                            {point ? `${point.potential.toFixed(1)} mV` : 'not measured'}
+                          </button>
+                        );
+                      })}
+                    </div>
+                    <div className="grid grid-cols-2 gap-2 mt-2">
+                      <button
+                        onClick={() => setPHMeter(prev => ({ ...prev, calibrated: true }))}
+                        disabled={!meterCalibration || phMeter.calibrated}
+                        className="bg-green-600 hover:bg-green-700 disabled:opacity-40 text-white text-xs px-2 py-2 rounded-lg"
+                      >
+                        Calibrate ({phMeter.calibrationPoints.length}-point)
+                      </button>
+                      <button
+                        onClick={() => setPHMeter(prev => ({ ...prev, calibrationPoints: [], calibrated: false }))}
+                        disabled={phMeter.calibrationPoints.length === 0}
+                        className="bg-gray-600 hover:bg-gray-700 disabled:opacity-40 text-white text-xs px-2 py-2 rounded-lg"
+                      >
+                        Clear calibration
+                      </button>
+                    </div>
+                  </div>
+                  
+                  {phMeter.calibrated && meterCalibration ? (
+                    <div className={`p-2 rounded-lg border text-xs ${
+                      meterCalibration.slope >= ACCEPTABLE_SLOPE[0] && meterCalibration.slope <= ACCEPTABLE_SLOPE[1]
+                        ? 'bg-green-900 bg-opacity-50 border-green-600 text-green-200'
+                        : 'bg-red-900 bg-opacity-50 border-red-600 text-red-200'
+                    }`}>
+                      Calibrated: slope {(meterCalibration.slope * 100).toFixed(1)}%, offset {meterCalibration.offset.toFixed(1)} mV at pH 7
+                      {(meterCalibration.slope < ACCEPTABLE_SLOPE[0] || meterCalibration.slope > ACCEPTABLE_SLOPE[1]) && (
+                        <> - outside {ACCEPTABLE_SLOPE[0] * 100}-{ACCEPTABLE_SLOPE[1] * 100}%, check the buffers</>
+                      )}
+                    </div>
+                  ) : (
+                    <div className="bg-yellow-900 bg-opacity-50 p-2 rounded-lg border border-yellow-600 text-xs text-yellow-200">
+                      Uncalibrated: the probe's slope and offset errors shift every reading (true pH {currentReading.toFixed(2)}, meter {indicatedPH.toFixed(2)})
+                    </div>
+                  )}
+                </>
+                )}
+              </div>
+              )}
+              
+              <div>
+                <label className="block text-sm font-medium text-cyan-200 mb-2">
+                  Temperature: {temperature} °C
+                </label>
+                <input
+                  type="range"
+                  min="0"
+                  max="60"
+                  step="1"
+                  value={temperature}
+                  onChange={(e) => setTemperature(parseFloat(e.target.value))}
+                  className="w-full accent-cyan-500"
+                  disabled={isRunning || titrantAdded > 0}
+                />
+                <p className="text-xs text-gray-400 mt-1">
+                  pKw = {getPKw(temperature).toFixed(2)}, neutral pH = {getNeutralPH(temperature).toFixed(2)}
+                  {analyte.strength === 'weak' ? " - pK values are corrected from 25 °C by van't Hoff" : ''}
+                </p>
+              </div>
+              
               <hr className="border-gray-700 my-4" />
               
               <div>
                 <label className="block text-sm font-medium text-cyan-200 mb-2">
                   Titrant (in burette)
                 </label>
-                <select
-                  value={titrantType}
-                  onChange={(e) => setTitrantType(e.target.value)}
-                  className="w-full p-3 bg-gray-900 text-white border border-cyan-500 border-opacity-50 rounded-lg focus:border-cyan-400 focus:outline-none"
-                  disabled={isRunning || titrantAdded > 0}
-                >
-                  <option value="acid">Acid (HCl)</option>
-                  <option value="base">Base (NaOH)</option>
-                </select>
+                <p className="w-full p-3 bg-gray-900 text-white border border-cyan-500 border-opacity-50 rounded-lg">
+                  {titrantName}
+                </p>
               </div>
               
+              {isStandardisation ? (
+                <p className="text-sm font-medium text-cyan-200">
+                  {titrantName} concentration: <span className="text-yellow-300">≈{NOMINAL_TITRANT_CONC} M, to be standardised</span>
+                </p>
+              ) : (
               <div>
                 <label className="block text-sm font-medium text-cyan-200 mb-2">
-                  Concentration: {titrantConc} M
+                  {titrantName} concentration: {titrantConc} M
                 </label>
                 <input
                   type="range"
@@ -1939,12 +3634,165 @@ export default function TitrationSimulator({ isEmbedded = false, onChartOpenChan
                   disabled={isRunning || titrantAdded > 0}
                 />
               </div>
+              )}
               
-              <div className="bg-indigo-900 bg-opacity-60 p-3 rounded-lg border border-indigo-500 shadow-inner">
-                <p className="text-sm text-cyan-200">
-                  <strong>Equivalence Point:</strong> {equivalencePoint} mL
+              {chemistry.colorModel === 'indicator' && (
+              <div>
+                <label className="block text-sm font-medium text-cyan-200 mb-2">
+                  Indicator
+                </label>
+                <select
+                  value={indicatorId}
+                  onChange={(e) => setIndicatorId(e.target.value)}
+                  className="w-full p-3 bg-gray-900 text-white border border-cyan-500 border-opacity-50 rounded-lg focus:border-cyan-400 focus:outline-none"
+                >
+                  {INDICATORS.map(i => (
+                    <option key={i.id} value={i.id}>
+                      {i.name} (pH {i.stages.map(s => `${s.lowPH}–${s.highPH}`).join(', ')})
+                    </option>
+                  ))}
+                </select>
+                {isAcidBase && (
+                <div className={`mt-2 p-3 rounded-lg border text-xs ${indicatorAssessment.suitable ? 'bg-green-900 bg-opacity-50 border-green-600 text-green-200' : 'bg-red-900 bg-opacity-50 border-red-600 text-red-200'}`}>
+                  {isChallenge ? null : indicatorAssessment.endPointVolume === null ? (
+                    <p>
+                      {indicator.name} never reaches its colour change (pH {indicatorAssessment.stage.lowPH}–{indicatorAssessment.stage.highPH}) during this titration.
+                    </p>
+                  ) : (
+                    <p>
+                      Colour changes at {indicatorAssessment.endPointVolume.toFixed(2)} mL vs equivalence at {indicatorAssessment.equivalenceVolume.toFixed(2)} mL
+                      ({indicatorAssessment.error! >= 0 ? '+' : ''}{indicatorAssessment.error!.toFixed(2)} mL).
+                    </p>
+                  )}
+                  <p className="mt-1 font-semibold">
+                    {indicatorAssessment.suitable
+                      ? 'Suitable: the transition range lies on the steep part of the curve.'
+                      : 'Unsuitable: the transition range misses the steep part of the curve, so the end point will be wrong.'}
+                  </p>
+                </div>
+                )}
+              </div>
+              )}
+              
+              {chemistry.colorModel === 'starch' && (
+                <div>
+                  <button
+                    onClick={() => setStarchAdded(true)}
+                    disabled={starchAdded}
+                    className="w-full bg-indigo-600 hover:bg-indigo-700 disabled:opacity-40 text-white text-sm px-3 py-2 rounded-lg"
+                  >
+                    {starchAdded ? 'Starch added' : 'Add starch indicator'}
+                  </button>
+                  <p className="text-xs text-gray-400 mt-1">
+                    Add starch once the iodine has faded to straw yellow; added too early, the starch-iodine complex is slow to break up.
+                  </p>
+                </div>
+              )}
+              
+              {chemistry.colorModel === 'self-indicating' && (
+                <p className="text-xs text-gray-400">
+                  No indicator needed: the end point is the first permanent pale pink from excess permanganate.
                 </p>
+              )}
+              
+              {isChallenge ? (
+                <div className="bg-yellow-900 bg-opacity-50 p-3 rounded-lg border border-yellow-600 text-xs text-yellow-100">
+                  Equivalence data is hidden in challenge mode - find the end point yourself.
+                </div>
+              ) : (
+              <div className="bg-indigo-900 bg-opacity-60 p-3 rounded-lg border border-indigo-500 shadow-inner">
+                {equivalencePoints.map((point, i) => (
+                  <p key={i} className="text-sm text-cyan-200">
+                    <strong>Equivalence Point{equivalencePoints.length > 1 ? ` ${i + 1}` : ''}:</strong> {point.volume.toFixed(2)} mL, {quantityInfo.label} {formatReading(point.value)}
+                  </p>
+                ))}
+                {halfEquivalencePoints.map((point, i) => (
+                  <p key={`half-${i}`} className="text-xs text-cyan-300">
+                    Half-equivalence{halfEquivalencePoints.length > 1 ? ` ${i + 1}` : ''}: {point.volume.toFixed(2)} mL, pH ≈ pKa = {point.pKa.toFixed(2)}
+                  </p>
+                ))}
+              </div>
+              )}
+              
+              <hr className="border-gray-700 my-4" />
+              
+              {chemistry.supportsChallenge && (
+              <div>
+                <h3 className="text-sm font-semibold text-yellow-300 mb-2">Unknown Concentration Challenge</h3>
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    value={challengeSeedInput}
+                    onChange={(e) => setChallengeSeedInput(e.target.value)}
+                    placeholder="Seed (blank = random)"
+                    className="flex-1 p-2 bg-gray-900 text-white text-sm border border-yellow-600 border-opacity-50 rounded-lg focus:outline-none"
+                  />
+                  <button
+                    onClick={() => startChallenge(challengeSeedInput)}
+                    className="bg-yellow-600 hover:bg-yellow-700 text-white text-sm px-3 py-2 rounded-lg"
+                  >
+                    {isChallenge ? 'New' : 'Start'}
+                  </button>
+                  {isChallenge && (
+                    <button
+                      onClick={() => {
+                        setChallenge(null);
+                        reset();
+                      }}
+                      className="bg-gray-600 hover:bg-gray-700 text-white text-sm px-3 py-2 rounded-lg"
+                    >
+                      Exit
+                    </button>
+                  )}
+                </div>
+                
+                {isChallenge && (
+                  <div className="mt-3 space-y-2">
+                    <p className="text-xs text-gray-300">
+                      Titrate {solutionVol} mL of {analyteName} with {titrantConc} M {titrantName}, then submit the analyte concentration.
+                      Share seed <strong className="text-yellow-300">{challenge!.seed}</strong> to give others the same sample.
+                    </p>
+                    <div className="flex gap-2">
+                      <input
+                        type="number"
+                        step="0.0001"
+                        min="0"
+                        value={challengeAnswerInput}
+                        onChange={(e) => setChallengeAnswerInput(e.target.value)}
+                        placeholder="Concentration (mol/L)"
+                        className="flex-1 p-2 bg-gray-900 text-white text-sm border border-yellow-600 border-opacity-50 rounded-lg focus:outline-none"
+                        disabled={challenge!.submittedAnswer !== null}
+                      />
+                      <button
+                        onClick={submitChallengeAnswer}
+                        disabled={challenge!.submittedAnswer !== null}
+                        className="bg-green-600 hover:bg-green-700 disabled:opacity-40 text-white text-sm px-3 py-2 rounded-lg"
+                      >
+                        Submit
+                      </button>
+                    </div>
+                    
+                    {challengeResult && (
+                      <div className={`p-3 rounded-lg border text-xs ${challengeResult.correct ? 'bg-green-900 bg-opacity-50 border-green-600 text-green-200' : 'bg-red-900 bg-opacity-50 border-red-600 text-red-200'}`}>
+                        <p className="font-semibold">
+                          {challengeResult.correct ? 'Correct' : 'Not within tolerance'}: you gave {challenge!.submittedAnswer!.toFixed(4)} mol/L,
+                          actual {challenge!.concentration.toFixed(4)} mol/L ({(challengeResult.relativeError * 100).toFixed(1)}%, tolerance ±{(CHALLENGE_TOLERANCE * 100).toFixed(0)}%).
+                        </p>
+                        <p className="mt-2 font-semibold">Worked solution:</p>
+                        <p>1. End point titre = {solutionTitre.toFixed(2)} mL</p>
+                        <p>
+                          2. n({titrantName}) = {titrantConc} mol/L × {(solutionTitre / 1000).toFixed(5)} L = {solutionTitrantMoles.toExponential(3)} mol
+                        </p>
+                        <p>
+                          3. n({analyteFormula}) = n({titrantName}) ÷ {+solutionMolarRatio.toFixed(3)} = {(solutionTitrantMoles / solutionMolarRatio).toExponential(3)} mol
+                        </p>
+                        <p>4. c({analyteFormula}) = n ÷ {(solutionVol / 1000).toFixed(3)} L = {challenge!.concentration.toFixed(4)} mol/L</p>
+                      </div>
+                    )}
+                  </div>
+                )}
               </div>
+              )}
             </div>
             
             <div className="flex gap-2 mt-6">
@@ -1968,15 +3816,52 @@ export default function TitrationSimulator({ isEmbedded = false, onChartOpenChan
               </button>
             </div>
             
+            <div className="mt-4">{buretteControls}</div>
+            
             <div className="grid grid-cols-2 gap-3 mt-6">
               <div className="bg-cyan-900 bg-opacity-60 p-3 rounded-lg border border-cyan-500 shadow-inner">
-                <p className="text-xs text-cyan-300 mb-1">pH</p>
-                <p className="text-2xl font-bold text-cyan-100">{currentPH.toFixed(2)}</p>
+                <p className="text-xs text-cyan-300 mb-1">{quantityInfo.label}</p>
+                <p className="text-2xl font-bold text-cyan-100">{formatReading(recordedReading)}</p>
               </div>
               <div className="bg-purple-900 bg-opacity-60 p-3 rounded-lg border border-purple-500 shadow-inner">
                 <p className="text-xs text-purple-300 mb-1">Volume Added</p>
                 <p className="text-2xl font-bold text-purple-100">{titrantAdded.toFixed(1)} mL</p>
               </div>
+              {isConductometric && (
+                <div className="col-span-2 bg-amber-900 bg-opacity-60 p-3 rounded-lg border border-amber-500 shadow-inner">
+                  <p className="text-xs text-amber-300 mb-1">Conductivity</p>
+                  <p className="text-2xl font-bold text-amber-100">{currentConductivity.toFixed(2)} mS/cm</p>
+                </div>
+              )}
+            </div>
+            
+            <div className="mt-6 bg-gray-800 bg-opacity-60 p-3 rounded-lg border border-gray-600">
+              <h3 className="text-sm font-semibold text-indigo-300 mb-2">Burette Readings</h3>
+              <table className="w-full text-xs text-gray-300">
+                <thead>
+                  <tr className="text-gray-400">
+                    <th className="text-left font-normal">Fill</th>
+                    <th className="text-right font-normal">Initial (mL)</th>
+                    <th className="text-right font-normal">Final (mL)</th>
+                    <th className="text-right font-normal">Delivered (mL)</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {buretteFills.map((fill, i) => {
+                    const isCurrent = i === buretteFills.length - 1;
+                    const final = fill.finalReading ?? (isCurrent ? buretteReading : null);
+                    return (
+                      <tr key={i}>
+                        <td>{i + 1}{isCurrent ? ' (current)' : ''}</td>
+                        <td className="text-right">{fill.initialReading.toFixed(2)}</td>
+                        <td className="text-right">{fill.finalReading !== null ? fill.finalReading.toFixed(2) : '—'}</td>
+                        <td className="text-right">{final !== null ? (final - fill.initialReading).toFixed(2) : '—'}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+              <p className="text-xs text-gray-400 mt-2">Total delivered: {titrantAdded.toFixed(2)} mL</p>
             </div>
           </div>
         </div>
@@ -2003,21 +3888,23 @@ export default function TitrationSimulator({ isEmbedded = false, onChartOpenChan
               </button>
             </div>
             
-            {data.length > 0 ? (
+            {chartViewTabs}
+            {activeChartView !== 'curve' ? renderAnalysisChart(300) : data.length > 0 ? (
                 <div className="w-full" style={{ height: '300px', minHeight: '300px' }}>
                   <ResponsiveContainer width="100%" height="100%" key={`chart-mobile-${data.length}`}>
                 <LineChart data={data} key={`linechart-mobile-${data.length}`}>
                   <CartesianGrid strokeDasharray="3 3" stroke="#444" />
                   <XAxis
                     dataKey="volume"
+                    type="number"
                     label={{ value: 'Volume (mL)', position: 'insideBottom', offset: -5, fill: '#fff' }}
                     stroke="#fff"
                     tick={{ fill: '#fff' }}
                     domain={['auto', 'auto']}
                   />
                   <YAxis
-                    domain={[0, 14]}
-                    label={{ value: 'pH', angle: -90, position: 'insideLeft', fill: '#fff' }}
+                    domain={chartQuantityInfo.domain}
+                    label={{ value: chartAxisLabel, angle: -90, position: 'insideLeft', fill: '#fff' }}
                     stroke="#fff"
                     tick={{ fill: '#fff' }}
                   />
@@ -2025,16 +3912,48 @@ export default function TitrationSimulator({ isEmbedded = false, onChartOpenChan
                     contentStyle={{ backgroundColor: '#1f2937', border: '1px solid #4b5563' }}
                     labelStyle={{ color: '#fff' }}
                   />
+                  {chartQuantity === 'pH' && (
+                    <ReferenceLine
+                      y={getNeutralPH(temperature)}
+                      stroke="#9ca3af"
+                      strokeDasharray="2 4"
+                      label={{ value: `Neutral (${temperature}°C)`, position: 'insideTopRight', fill: '#9ca3af', fontSize: 10 }}
+                    />
+                  )}
+                  {!isChallenge && equivalencePoints.map((point, i) => (
+                    <ReferenceLine
+                      key={i}
+                      x={point.volume}
+                      stroke="#f472b6"
+                      strokeDasharray="4 4"
+                      label={{ value: `Eq${equivalencePoints.length > 1 ? ` ${i + 1}` : ''}`, position: 'top', fill: '#f472b6', fontSize: 11 }}
+                      ifOverflow="hidden"
+                    />
+                  ))}
                   <Line
                     type="monotone"
-                    dataKey="pH"
-                    stroke="#06b6d4"
+                    dataKey={chartQuantity}
+                    stroke={isConductometric ? "#f59e0b" : "#06b6d4"}
+                    connectNulls
                     strokeWidth={3}
                     dot={false}
                     isAnimationActive={!isRunning}
                     animationDuration={isRunning ? 0 : 300}
                     animationEasing="ease-out"
                   />
+                  {chemistry.getReference && (
+                    <Line
+                      type="monotone"
+                      dataKey="referencePH"
+                      name="Unbuffered water"
+                      stroke="#9ca3af"
+                      strokeDasharray="6 4"
+                      connectNulls
+                      strokeWidth={2}
+                      dot={false}
+                      isAnimationActive={false}
+                    />
+                  )}
                 </LineChart>
               </ResponsiveContainer>
                 </div>
@@ -2048,9 +3967,31 @@ export default function TitrationSimulator({ isEmbedded = false, onChartOpenChan
               <div className="bg-gray-800 bg-opacity-60 p-3 rounded-lg border border-gray-600">
                 <h3 className="text-sm font-semibold text-cyan-300 mb-2">Key Points:</h3>
                 <ul className="text-xs text-gray-300 space-y-1">
-                  <li>• Steep curve = equivalence point region</li>
-                  <li>• Color change occurs near pH 8-10</li>
-                  <li>• Buffer region shows gradual pH change</li>
+                  {isConductometric ? (
+                    <>
+                      <li>• Sharp minimum or kink = equivalence point</li>
+                      <li>• H+ and OH- conduct far better than other ions</li>
+                      <li>• Extrapolate the straight branches to where they meet</li>
+                    </>
+                  ) : chemistry.quantity === 'potential' ? (
+                    <>
+                      <li>• Potential jumps sharply at the equivalence point</li>
+                      <li>• {chemistry.colorModel === 'starch' ? 'Starch-iodine blue-black vanishes at the end point' : 'First permanent pink marks the end point'}</li>
+                      <li>• {titrantName} : {analyteFormula} mole ratio is {+chemistry.getMolarRatio(setup, 0).toFixed(3)} : 1</li>
+                    </>
+                  ) : isBuffer ? (
+                    <>
+                      <li>• Buffer holds pH near pKa while both HA and A- remain</li>
+                      <li>• Dashed grey line: the same additions into unbuffered water</li>
+                      <li>• Capacity is greatest at pH = pKa and collapses once one component is used up</li>
+                    </>
+                  ) : (
+                    <>
+                      <li>• Steep curve = equivalence point region</li>
+                      <li>• {indicator.name} changes color near pH {indicatorAssessment.stage.lowPH}–{indicatorAssessment.stage.highPH}</li>
+                      <li>• Buffer region shows gradual pH change</li>
+                    </>
+                  )}
                 </ul>
                 </div>
               </div>
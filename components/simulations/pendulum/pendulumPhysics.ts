@@ -0,0 +1,115 @@
+/**
+ * Simple pendulum, θ'' = −(g/L) sin θ − bθ'
+ * The swing is integrated numerically with fourth-order Runge-Kutta, so large
+ * release angles get the longer true period. The linearised (small-angle)
+ * solution, sin θ ≈ θ, is solved exactly alongside it for comparison, and the
+ * exact undamped period comes from the complete elliptic integral
+ */
+
+import type { PendulumParams, PendulumState, PeriodPoint } from '../../../types/pendulum';
+
+// Longest integration step (s); each animation tick is split into steps no longer than this
+export const TIME_STEP = 0.002;
+
+// Largest amplitude on the period-amplitude curve (degrees); the period grows without bound towards 180°
+export const MAX_CURVE_AMPLITUDE = 175;
+
+// ω0 = √(g/L)
+export const getNaturalOmega = ({ length, gravity }: PendulumParams) => Math.sqrt(gravity / length);
+
+export const getAngularAcceleration = ({ theta, omega }: PendulumState, params: PendulumParams) => {
+  return -(params.gravity / params.length) * Math.sin(theta) - params.damping * omega;
+};
+
+const rk4Step = (state: PendulumState, params: PendulumParams, dt: number): PendulumState => {
+  const at = (theta: number, omega: number) => getAngularAcceleration({ theta, omega }, params);
+  const k1 = { theta: state.omega, omega: at(state.theta, state.omega) };
+  const k2 = { theta: state.omega + (k1.omega * dt) / 2, omega: at(state.theta + (k1.theta * dt) / 2, state.omega + (k1.omega * dt) / 2) };
+  const k3 = { theta: state.omega + (k2.omega * dt) / 2, omega: at(state.theta + (k2.theta * dt) / 2, state.omega + (k2.omega * dt) / 2) };
+  const k4 = { theta: state.omega + k3.omega * dt, omega: at(state.theta + k3.theta * dt, state.omega + k3.omega * dt) };
+  return {
+    theta: state.theta + ((k1.theta + 2 * k2.theta + 2 * k3.theta + k4.theta) * dt) / 6,
+    omega: state.omega + ((k1.omega + 2 * k2.omega + 2 * k3.omega + k4.omega) * dt) / 6,
+  };
+};
+
+// Advance the swing by dt
+export const stepPendulum = (state: PendulumState, params: PendulumParams, dt: number): PendulumState => {
+  const steps = Math.max(1, Math.ceil(dt / TIME_STEP - 1e-9));
+  let next = state;
+  for (let i = 0; i < steps; i++) {
+    next = rk4Step(next, params, dt / steps);
+  }
+  return next;
+};
+
+// Angular frequency of the linearised swing, √(ω0² − b²/4); 0 when the damping stops it oscillating
+export const getDampedOmega = (params: PendulumParams) => {
+  const omega0 = getNaturalOmega(params);
+  const decay = params.damping / 2;
+  return omega0 > decay ? Math.sqrt(omega0 * omega0 - decay * decay) : 0;
+};
+
+// Period of the linearised swing, 2π/ω_d (Infinity when it does not oscillate)
+export const getSmallAnglePeriod = (params: PendulumParams) => {
+  const omega = getDampedOmega(params);
+  return omega > 0 ? (2 * Math.PI) / omega : Infinity;
+};
+
+/**
+ * Small-angle solution of θ'' = −ω0²θ − bθ' released from rest at theta0
+ * Underdamped, critically damped or overdamped, as the damping requires
+ */
+export const getSmallAngleState = (theta0: number, params: PendulumParams, t: number): PendulumState => {
+  const omega0 = getNaturalOmega(params);
+  const decay = params.damping / 2;
+  const omegaD = getDampedOmega(params);
+  if (omegaD > 0) {
+    const envelope = theta0 * Math.exp(-decay * t);
+    return {
+      theta: envelope * (Math.cos(omegaD * t) + (decay / omegaD) * Math.sin(omegaD * t)),
+      omega: -envelope * ((omega0 * omega0) / omegaD) * Math.sin(omegaD * t),
+    };
+  }
+  const spread = Math.sqrt(Math.max(0, decay * decay - omega0 * omega0));
+  if (spread < 1e-9) {
+    const envelope = theta0 * Math.exp(-decay * t);
+    return { theta: envelope * (1 + decay * t), omega: -envelope * decay * decay * t };
+  }
+  // Overdamped: a sum of two decaying exponentials, r = −b/2 ± √(b²/4 − ω0²)
+  const r1 = -decay + spread;
+  const r2 = -decay - spread;
+  return {
+    theta: (theta0 * (r2 * Math.exp(r1 * t) - r1 * Math.exp(r2 * t))) / (r2 - r1),
+    omega: (theta0 * r1 * r2 * (Math.exp(r1 * t) - Math.exp(r2 * t))) / (r2 - r1),
+  };
+};
+
+// Complete elliptic integral of the first kind K(k), from the arithmetic-geometric mean
+const ellipticK = (k: number) => {
+  let a = 1;
+  let b = Math.sqrt(1 - k * k);
+  for (let i = 0; i < 30 && Math.abs(a - b) > 1e-15; i++) {
+    [a, b] = [(a + b) / 2, Math.sqrt(a * b)];
+  }
+  return Math.PI / (2 * a);
+};
+
+// Exact period of the undamped swing released at theta0, T = (4/ω0)K(sin(θ0/2))
+export const getExactPeriod = (theta0: number, params: PendulumParams) => {
+  return (4 / getNaturalOmega(params)) * ellipticK(Math.sin(Math.abs(theta0) / 2));
+};
+
+// Exact and small-angle undamped periods from 1° up to MAX_CURVE_AMPLITUDE, for the period-amplitude chart
+export const getPeriodCurve = (params: PendulumParams, step = 5): PeriodPoint[] => {
+  const smallAngle = (2 * Math.PI) / getNaturalOmega(params);
+  const amplitudes = [1];
+  for (let amplitude = step; amplitude <= MAX_CURVE_AMPLITUDE; amplitude += step) {
+    amplitudes.push(amplitude);
+  }
+  return amplitudes.map(amplitude => ({
+    amplitude,
+    exact: getExactPeriod((amplitude * Math.PI) / 180, params),
+    smallAngle,
+  }));
+};
@@ -0,0 +1,124 @@
+/**
+ * Hit-the-target challenge for the projectile simulator
+ * Target distances, heights and obstacles come from a seed so a class can share
+ * one challenge set. A shot hits when the flight lands on the target's face;
+ * a flight stopped by the obstacle wall is blocked
+ */
+
+import type { ChallengeShot, ChallengeTarget, TargetChallenge, TerrainBlock, Trajectory } from '../../../types/projectile';
+import { createSeededRandom } from '../../../utils/random';
+
+export const CHALLENGE_TARGET_COUNT = 5;
+export const SHOTS_PER_TARGET = 3;
+export const TARGET_RADIUS = 1.5; // m
+
+// Points for a hit with the first, second and third shot at a target
+const POINTS_BY_SHOT = [3, 2, 1];
+
+const MIN_DISTANCE = 15;
+const MAX_DISTANCE = 70;
+const MAX_TARGET_HEIGHT = 12;
+const OBSTACLE_CHANCE = 0.4;
+const OBSTACLE_DEPTH = 10; // m
+
+const roundToHalf = (value: number) => Math.round(value * 2) / 2;
+
+const createTarget = (random: () => number): ChallengeTarget => {
+  const distance = roundToHalf(MIN_DISTANCE + random() * (MAX_DISTANCE - MIN_DISTANCE));
+  const height = random() < 0.5 ? 0 : roundToHalf(2 + random() * (MAX_TARGET_HEIGHT - 2));
+  let obstacle: TerrainBlock | null = null;
+  if (random() < OBSTACLE_CHANCE) {
+    // A wall part-way to the target, taller than it, leaving a clear gap in front of the target
+    const width = roundToHalf(1 + random());
+    const start = Math.min(roundToHalf(distance * (0.4 + 0.3 * random())), distance - TARGET_RADIUS - width - 2);
+    obstacle = { kind: 'obstacle', start, width, depth: OBSTACLE_DEPTH, height: roundToHalf(height + 4 + random() * 8) };
+  }
+  return { distance, height, radius: TARGET_RADIUS, obstacle };
+};
+
+export const createTargetChallenge = (seed: string): TargetChallenge => {
+  const code = seed.trim().toUpperCase();
+  const random = createSeededRandom(code);
+  return {
+    seed: code,
+    targets: Array.from({ length: CHALLENGE_TARGET_COUNT }, () => createTarget(random)),
+    currentIndex: 0,
+    shotsPerTarget: SHOTS_PER_TARGET,
+    shots: [],
+    score: 0,
+    streak: 0,
+    bestStreak: 0,
+    hits: 0,
+    finished: false,
+  };
+};
+
+export const getCurrentTarget = (challenge: TargetChallenge) => challenge.targets[challenge.currentIndex];
+
+// Target pillar and obstacle wall as blocks on the ground, for collision and rendering
+export const getChallengeBlocks = (target: ChallengeTarget): TerrainBlock[] => {
+  const pillar: TerrainBlock = {
+    kind: 'target',
+    start: target.distance - target.radius,
+    width: target.radius * 2,
+    depth: target.radius * 2,
+    height: target.height,
+  };
+  return target.obstacle ? [target.obstacle, pillar] : [pillar];
+};
+
+export const judgeShot = (
+  target: ChallengeTarget,
+  trajectory: Trajectory
+): Pick<ChallengeShot, 'outcome' | 'missBy' | 'driftBy'> => {
+  const missBy = trajectory.landingX - target.distance;
+  const driftBy = trajectory.landingZ;
+  const { obstacle } = target;
+  const e = 1e-6;
+  if (
+    obstacle &&
+    trajectory.landingX >= obstacle.start - e &&
+    trajectory.landingX <= obstacle.start + obstacle.width + e &&
+    Math.abs(driftBy) <= obstacle.depth / 2 + e
+  ) {
+    return { outcome: 'blocked', missBy, driftBy };
+  }
+  const onFace = !trajectory.hitWall && Math.abs(trajectory.landingY - target.height) < 1e-3;
+  const withinFace = Math.abs(missBy) <= target.radius && Math.abs(driftBy) <= target.radius;
+  return { outcome: onFace && withinFace ? 'hit' : 'miss', missBy, driftBy };
+};
+
+// The current target is done once it has been hit or every shot has been used
+export const isTargetComplete = (challenge: TargetChallenge) => {
+  return challenge.shots.some(s => s.outcome === 'hit') || challenge.shots.length >= challenge.shotsPerTarget;
+};
+
+export const recordShot = (
+  challenge: TargetChallenge,
+  velocity: number,
+  angle: number,
+  trajectory: Trajectory
+): TargetChallenge => {
+  if (challenge.finished || isTargetComplete(challenge)) return challenge;
+  const shot: ChallengeShot = { velocity, angle, ...judgeShot(getCurrentTarget(challenge), trajectory) };
+  const hit = shot.outcome === 'hit';
+  const streak = hit ? challenge.streak + 1 : 0;
+  return {
+    ...challenge,
+    shots: [...challenge.shots, shot],
+    score: challenge.score + (hit ? POINTS_BY_SHOT[challenge.shots.length] ?? 1 : 0),
+    streak,
+    bestStreak: Math.max(challenge.bestStreak, streak),
+    hits: challenge.hits + (hit ? 1 : 0),
+  };
+};
+
+// Move on to the next target, or finish after the last one
+export const advanceTarget = (challenge: TargetChallenge): TargetChallenge => {
+  if (challenge.currentIndex + 1 >= challenge.targets.length) {
+    return { ...challenge, finished: true };
+  }
+  return { ...challenge, currentIndex: challenge.currentIndex + 1, shots: [] };
+};
+
+export const getMaxScore = (challenge: TargetChallenge) => challenge.targets.length * POINTS_BY_SHOT[0];
@@ -0,0 +1,53 @@
+import * as THREE from 'three';
+import type { FlightTrail } from '../../../types/projectile';
+import { sampleTrajectory } from './projectilePhysics';
+
+/**
+ * A trail and a ball for each flight launched alongside the main projectile
+ * The trails grow with the flight time rather than being drawn in full up front
+ */
+export const createComparisonGroup = (flights: FlightTrail[], ballRadius: number): THREE.Group => {
+  const group = new THREE.Group();
+  group.userData.type = 'comparison';
+  flights.forEach(({ color }) => {
+    const trail = new THREE.Line(new THREE.BufferGeometry(), new THREE.LineBasicMaterial({ color }));
+    const ball = new THREE.Mesh(new THREE.SphereGeometry(ballRadius * 0.8, 16, 16), new THREE.MeshStandardMaterial({ color, roughness: 0.4 }));
+    group.add(trail, ball);
+  });
+  return group;
+};
+
+// Move each ball to time t, and draw its trail up to there when trails are shown; lift is the ball radius
+export const updateComparisonGroup = (group: THREE.Group, flights: FlightTrail[], t: number, showTrail: boolean, lift: number) => {
+  flights.forEach(({ trajectory }, i) => {
+    const trail = group.children[i * 2] as THREE.Line;
+    const ball = group.children[i * 2 + 1] as THREE.Mesh;
+    const p = sampleTrajectory(trajectory, t);
+    ball.position.set(p.x, p.y + lift, p.z);
+    const flown = trajectory.points.filter(q => q.t < t).map(q => new THREE.Vector3(q.x, q.y + lift, q.z));
+    trail.geometry.setFromPoints(showTrail && t > 0 ? [...flown, ball.position.clone()] : []);
+  });
+};
+
+// Faint full-length trails of earlier launches
+export const createGhostGroup = (runs: FlightTrail[], lift: number): THREE.Group => {
+  const group = new THREE.Group();
+  group.userData.type = 'ghosts';
+  runs.forEach(({ color, trajectory }) => {
+    const trail = new THREE.Line(
+      new THREE.BufferGeometry().setFromPoints(trajectory.points.map(p => new THREE.Vector3(p.x, p.y + lift, p.z))),
+      new THREE.LineBasicMaterial({ color, transparent: true, opacity: 0.55 })
+    );
+    group.add(trail);
+  });
+  return group;
+};
+
+export const disposeComparisonGroup = (group: THREE.Group) => {
+  group.traverse(object => {
+    if (object instanceof THREE.Mesh || object instanceof THREE.Line) {
+      object.geometry.dispose();
+      (object.material as THREE.Material).dispose();
+    }
+  });
+};
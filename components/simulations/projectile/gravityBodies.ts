@@ -0,0 +1,23 @@
+/**
+ * Bodies for projectile launches beyond Earth
+ * Jupiter has no surface, so its values are taken at the 1 bar cloud level
+ */
+
+import type { GravityBody, GravityBodyId } from '../../../types/projectile';
+
+export const GRAVITY_BODIES: GravityBody[] = [
+  { id: 'earth', name: 'Earth', gravity: 9.81, airDensity: 1.225, color: 0x4299e1 },
+  { id: 'moon', name: 'Moon', gravity: 1.62, airDensity: 0, color: 0xcbd5e0 },
+  { id: 'mars', name: 'Mars', gravity: 3.71, airDensity: 0.02, color: 0xe53e3e },
+  { id: 'jupiter', name: 'Jupiter', gravity: 24.79, airDensity: 0.16, color: 0xed8936 },
+];
+
+// Range of the custom gravity slider (m/s²)
+export const CUSTOM_GRAVITY_RANGE: [number, number] = [0.5, 30];
+
+export const getGravityBody = (id: GravityBodyId) => GRAVITY_BODIES.find(b => b.id === id) ?? null;
+
+export const getGravity = (id: GravityBodyId, customGravity: number) => getGravityBody(id)?.gravity ?? customGravity;
+
+// CSS colour for a body's trail, for the comparison table
+export const toCssColor = (color: number) => `#${color.toString(16).padStart(6, '0')}`;
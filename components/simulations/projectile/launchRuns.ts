@@ -0,0 +1,33 @@
+/**
+ * Earlier launches kept for comparison, and the fan of angles fired in one go
+ * Runs keep their colour from launch to ghost trail, so a row of the run table
+ * can be matched to its trail in the scene
+ */
+
+import type { LaunchRun, Trajectory } from '../../../types/projectile';
+
+export const FAN_ANGLES = [15, 30, 45, 60, 75]; // degrees
+export const DEFAULT_MAX_RUNS = 8;
+
+// One colour per run kept; run ids are consecutive, so the runs on screen never share a colour
+const RUN_COLORS = [
+  0xf56565, 0xed8936, 0xecc94b, 0xa3e635, 0x48bb78, 0x38b2ac,
+  0x22d3ee, 0x4299e1, 0x818cf8, 0x9f7aea, 0xed64a6, 0xe2e8f0,
+];
+export const MAX_RUNS_LIMIT = RUN_COLORS.length;
+
+export const createRun = (id: number, velocity: number, angle: number, trajectory: Trajectory): LaunchRun => ({
+  id,
+  velocity,
+  angle,
+  color: RUN_COLORS[(id - 1) % RUN_COLORS.length],
+  trajectory,
+});
+
+export const getNextRunId = (runs: LaunchRun[]) => (runs.length > 0 ? runs[runs.length - 1].id + 1 : 1);
+
+// Append the new runs, dropping the oldest beyond the limit
+export const addRuns = (runs: LaunchRun[], added: LaunchRun[], limit: number) => [...runs, ...added].slice(-limit);
+
+// The fan goes up alongside the main launch, so its own angle is not fired twice
+export const getFanAngles = (mainAngle: number) => FAN_ANGLES.filter(a => a !== mainAngle);
@@ -0,0 +1,541 @@
+/**
+ * Projectile flight with and without air resistance
+ * In a vacuum each step follows the constant-acceleration equations exactly. Quadratic
+ * drag couples the components of the motion, and acts on the velocity relative to
+ * the (possibly gusting) wind, so that flight is integrated numerically in three
+ * dimensions with fourth-order Runge-Kutta at a fixed timestep. Either way the
+ * flight is stepped until it meets the terrain, which may be raised, stepped or
+ * sloped, so the landing point is found by intersection rather than at y = 0.
+ * On the way it may rebound off colliders such as a hoop rim, and with bounce on
+ * it rebounds off the terrain and obstacles until friction brings it to rest
+ */
+
+import type {
+  BounceSettings,
+  Collider,
+  DragSettings,
+  Impact,
+  LaunchParams,
+  TerrainBlock,
+  TerrainSettings,
+  Trajectory,
+  TrajectoryPoint,
+  WindSettings
+} from '../../../types/projectile';
+import { createSeededRandom } from '../../../utils/random';
+
+// Earth's surface gravity, the default for every flight
+export const G = 9.81; // m/s²
+
+// Integration and sampling step (s); small enough that RK4 error is far below display precision
+export const TIME_STEP = 0.01;
+
+// Stop integrating after this long, in case a setting never lets the projectile land
+const MAX_FLIGHT_TIME = 600;
+
+// Half the width of the ground drawn in the scene (m); a bouncing ball that gets further away is no longer tracked
+export const GROUND_EXTENT = 100;
+
+// A slide still speeding up away from the launcher after this long (s) is on a slope friction cannot hold, so the ball is let go
+const RUNAWAY_SLIDE_TIME = 2;
+
+// A cricket-ball sized sphere in sea-level air
+export const DEFAULT_DRAG: DragSettings = {
+  enabled: false,
+  mass: 0.16,
+  dragCoefficient: 0.47,
+  area: 0.0042,
+  airDensity: 1.225,
+};
+
+export const DEFAULT_WIND: WindSettings = {
+  speed: 0,
+  direction: 90,
+  gusts: false,
+  gustStrength: 0.5,
+  gustSeed: 1,
+};
+
+export const DEFAULT_BOUNCE: BounceSettings = {
+  enabled: false,
+  restitution: 0.6,
+  friction: 0.3,
+};
+
+export const DEFAULT_TERRAIN: TerrainSettings = {
+  kind: 'flat',
+  launchHeight: 0,
+  cliffEdge: 5,
+  platformStart: 25,
+  platformWidth: 10,
+  platformHeight: 5,
+  inclineAngle: 10,
+};
+
+const getGroundHeight = (terrain: TerrainSettings, x: number) => {
+  switch (terrain.kind) {
+    case 'cliff':
+      return x < terrain.cliffEdge ? terrain.launchHeight : 0;
+    case 'platform':
+      return x >= terrain.platformStart && x <= terrain.platformStart + terrain.platformWidth ? terrain.platformHeight : 0;
+    case 'incline':
+      return x * Math.tan((terrain.inclineAngle * Math.PI) / 180);
+    default:
+      return 0;
+  }
+};
+
+// Height of the ground, or of any block standing on it, at (x, z); vertical faces are steps in this profile
+export const getTerrainHeight = (terrain: TerrainSettings, x: number, z: number, blocks: TerrainBlock[] = []) => {
+  return blocks.reduce(
+    (height, b) => (x >= b.start && x <= b.start + b.width && Math.abs(z) <= b.depth / 2 ? Math.max(height, b.height) : height),
+    getGroundHeight(terrain, x)
+  );
+};
+
+// k in a = -k|v|v, from F = ½ρCdAv² divided by the mass
+export const getDragConstant = (drag: DragSettings) => {
+  return (0.5 * drag.airDensity * drag.dragCoefficient * drag.area) / drag.mass;
+};
+
+// Speed at which drag balances gravity, √(g/k)
+export const getTerminalVelocity = (drag: DragSettings, gravity = G) => {
+  const k = getDragConstant(drag);
+  return k > 0 ? Math.sqrt(gravity / k) : Infinity;
+};
+
+// Wind velocity (x and z components) at time t
+export type WindField = (t: number) => [number, number];
+
+/**
+ * Wind velocity as a function of time, built once per flight
+ * Gusts are two sinusoids along the wind and one across it, with phases drawn
+ * from the gust seed here rather than at every step, so the same settings
+ * always give the same flight
+ */
+export const createWindField = (wind: WindSettings): WindField => {
+  const direction = (wind.direction * Math.PI) / 180;
+  const random = createSeededRandom(wind.gustSeed);
+  const phases = wind.gusts && wind.speed > 0 ? [random(), random(), random()].map(p => p * 2 * Math.PI) : null;
+  return t => {
+    let along = wind.speed;
+    let across = 0;
+    if (phases) {
+      along += wind.speed * wind.gustStrength * (0.6 * Math.sin((2 * Math.PI * t) / 2.3 + phases[0]) + 0.4 * Math.sin((2 * Math.PI * t) / 0.9 + phases[1]));
+      across = wind.speed * wind.gustStrength * 0.5 * Math.sin((2 * Math.PI * t) / 1.7 + phases[2]);
+    }
+    return [
+      along * Math.cos(direction) - across * Math.sin(direction),
+      along * Math.sin(direction) + across * Math.cos(direction),
+    ];
+  };
+};
+
+type State = [number, number, number, number, number, number]; // x, y, z, vx, vy, vz
+
+// Drag opposes the velocity through the air, v - w
+const derivative = ([, , , vx, vy, vz]: State, k: number, gravity: number, [wx, wz]: [number, number]): State => {
+  const rx = vx - wx;
+  const rz = vz - wz;
+  const airSpeed = Math.hypot(rx, vy, rz);
+  return [vx, vy, vz, -k * airSpeed * rx, -gravity - k * airSpeed * vy, -k * airSpeed * rz];
+};
+
+const rk4Step = (state: State, t: number, k: number, gravity: number, windAt: WindField, dt: number): State => {
+  const add = (s: State, d: State, h: number) => s.map((v, i) => v + d[i] * h) as State;
+  const k1 = derivative(state, k, gravity, windAt(t));
+  const k2 = derivative(add(state, k1, dt / 2), k, gravity, windAt(t + dt / 2));
+  const k3 = derivative(add(state, k2, dt / 2), k, gravity, windAt(t + dt / 2));
+  const k4 = derivative(add(state, k3, dt), k, gravity, windAt(t + dt));
+  return state.map((v, i) => v + (dt / 6) * (k1[i] + 2 * k2[i] + 2 * k3[i] + k4[i])) as State;
+};
+
+const lerpPoint = (a: TrajectoryPoint, b: TrajectoryPoint, f: number): TrajectoryPoint => ({
+  t: a.t + (b.t - a.t) * f,
+  x: a.x + (b.x - a.x) * f,
+  y: a.y + (b.y - a.y) * f,
+  z: a.z + (b.z - a.z) * f,
+  vx: a.vx + (b.vx - a.vx) * f,
+  vy: a.vy + (b.vy - a.vy) * f,
+  vz: a.vz + (b.vz - a.vz) * f,
+});
+
+// Bisection on the step where the projectile went below the ground; also finds hits on vertical faces
+const findLanding = (prev: TrajectoryPoint, next: TrajectoryPoint, terrain: TerrainSettings, blocks: TerrainBlock[]) => {
+  const heightAt = (x: number, z: number) => getTerrainHeight(terrain, x, z, blocks);
+  let lo = 0;
+  let hi = 1;
+  for (let i = 0; i < 40; i++) {
+    const mid = (lo + hi) / 2;
+    const p = lerpPoint(prev, next, mid);
+    if (p.y < heightAt(p.x, p.z)) {
+      hi = mid;
+    } else {
+      lo = mid;
+    }
+  }
+  const landing = lerpPoint(prev, next, hi);
+  // A face is a step in the height either side of the landing point, in x or in z
+  const e = 1e-6;
+  const around = [heightAt(landing.x - e, landing.z), heightAt(landing.x + e, landing.z), heightAt(landing.x, landing.z - e), heightAt(landing.x, landing.z + e)];
+  const hitWall = Math.max(...around) - Math.min(...around) > 1e-3 && landing.y < Math.max(...around) - 1e-3;
+  return { landing: hitWall ? landing : { ...landing, y: heightAt(landing.x, landing.z) }, hitWall };
+};
+
+type Vec = [number, number, number];
+
+const dot = (a: Vec, b: Vec) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+
+const velocityOf = (p: TrajectoryPoint): Vec => [p.vx, p.vy, p.vz];
+
+const withVelocity = (p: TrajectoryPoint, [vx, vy, vz]: Vec): TrajectoryPoint => ({ ...p, vx, vy, vz });
+
+const touches = (collider: Collider, p: TrajectoryPoint) => {
+  if (collider.kind === 'ring') {
+    const fromAxis = Math.hypot(p.x - collider.x, p.z - collider.z);
+    return Math.hypot(fromAxis - collider.radius, p.y - collider.y) < collider.reach;
+  }
+  return Math.abs(p.x - collider.x) < collider.reach && p.y >= collider.yMin && p.y <= collider.yMax && Math.abs(p.z) <= collider.halfWidth;
+};
+
+// Unit normal of the collider surface at the contact point, pointing towards the ball
+const contactNormal = (collider: Collider, p: TrajectoryPoint): Vec => {
+  if (collider.kind === 'board') return [p.x < collider.x ? -1 : 1, 0, 0];
+  const fromAxis = Math.hypot(p.x - collider.x, p.z - collider.z) || 1;
+  const n: Vec = [
+    p.x - (collider.x + (collider.radius * (p.x - collider.x)) / fromAxis),
+    p.y - collider.y,
+    p.z - (collider.z + (collider.radius * (p.z - collider.z)) / fromAxis),
+  ];
+  const length = Math.hypot(...n) || 1;
+  return [n[0] / length, n[1] / length, n[2] / length];
+};
+
+/**
+ * Rebound off the first collider the step runs into, v' = v - (1 + e)(v·n)n
+ * The contact is found by bisection, and the rest of the step continues in a
+ * straight line at the new velocity
+ */
+const collide = (prev: TrajectoryPoint, next: TrajectoryPoint, colliders: Collider[]): { point: TrajectoryPoint; impact: Impact | null } => {
+  for (const collider of colliders) {
+    if (!touches(collider, next) || touches(collider, prev)) continue;
+    let lo = 0;
+    let hi = 1;
+    for (let i = 0; i < 30; i++) {
+      const mid = (lo + hi) / 2;
+      if (touches(collider, lerpPoint(prev, next, mid))) {
+        hi = mid;
+      } else {
+        lo = mid;
+      }
+    }
+    const contact = lerpPoint(prev, next, lo);
+    const n = contactNormal(collider, contact);
+    const before = velocityOf(contact);
+    const normalSpeed = dot(before, n);
+    if (normalSpeed >= 0) continue;
+    const impulse = (1 + collider.restitution) * normalSpeed;
+    const after: Vec = [before[0] - impulse * n[0], before[1] - impulse * n[1], before[2] - impulse * n[2]];
+    const rest = next.t - contact.t;
+    return {
+      point: { t: next.t, x: contact.x + after[0] * rest, y: contact.y + after[1] * rest, z: contact.z + after[2] * rest, vx: after[0], vy: after[1], vz: after[2] },
+      impact: { t: contact.t, x: contact.x, y: contact.y, z: contact.z, surface: 'collider', velocityBefore: before, velocityAfter: after },
+    };
+  }
+  return { point: next, impact: null };
+};
+
+// Normal of the ground, or of an obstacle face for a wall hit, at an impact point, pointing out of the surface
+const surfaceNormal = (terrain: TerrainSettings, blocks: TerrainBlock[], p: TrajectoryPoint, wall: boolean): Vec => {
+  const heightAt = (x: number, z: number) => getTerrainHeight(terrain, x, z, blocks);
+  if (wall) {
+    const e = 1e-6;
+    const stepX = heightAt(p.x + e, p.z) - heightAt(p.x - e, p.z);
+    if (Math.abs(stepX) > 1e-3) return [stepX > 0 ? -1 : 1, 0, 0];
+    return [0, 0, heightAt(p.x, p.z + e) > heightAt(p.x, p.z - e) ? -1 : 1];
+  }
+  // Slope from central differences; a step right beside the point counts as level ground
+  const d = 1e-3;
+  const gx = (heightAt(p.x + d, p.z) - heightAt(p.x - d, p.z)) / (2 * d);
+  const gz = (heightAt(p.x, p.z + d) - heightAt(p.x, p.z - d)) / (2 * d);
+  if (Math.abs(gx) > 5 || Math.abs(gz) > 5) return [0, 1, 0];
+  const length = Math.hypot(gx, 1, gz);
+  return [-gx / length, 1 / length, -gz / length];
+};
+
+// Below this rebound speed off a top surface the ball stops bouncing and slides (m/s)
+const REST_SPEED = 0.3;
+
+/**
+ * Velocity after an impact with a surface of normal n
+ * The normal component reverses and is scaled by the restitution; the friction
+ * impulse, at most μ times the normal impulse, slows the tangential component
+ * without reversing it
+ */
+const rebound = (velocity: Vec, n: Vec, bounce: BounceSettings) => {
+  const normalSpeed = dot(velocity, n);
+  const tangent: Vec = [velocity[0] - normalSpeed * n[0], velocity[1] - normalSpeed * n[1], velocity[2] - normalSpeed * n[2]];
+  const tangentSpeed = Math.hypot(...tangent);
+  const frictionLoss = bounce.friction * (1 + bounce.restitution) * -normalSpeed;
+  const keep = tangentSpeed > 0 ? Math.max(0, tangentSpeed - frictionLoss) / tangentSpeed : 0;
+  const outSpeed = -bounce.restitution * normalSpeed;
+  return {
+    tangent: [tangent[0] * keep, tangent[1] * keep, tangent[2] * keep] as Vec,
+    velocity: [tangent[0] * keep + outSpeed * n[0], tangent[1] * keep + outSpeed * n[1], tangent[2] * keep + outSpeed * n[2]] as Vec,
+    outSpeed,
+  };
+};
+
+/**
+ * One step of sliding over a top surface of normal n: gravity along the slope and
+ * kinetic friction μg·n_y against the motion (air resistance is neglected at these
+ * speeds). A ball at rest starts sliding down a slope too steep for friction to
+ * hold it. Returns null once friction stops the ball within the step, or holds it
+ */
+const slideStep = (prev: TrajectoryPoint, n: Vec, gravity: number, friction: number): TrajectoryPoint | null => {
+  const v = velocityOf(prev);
+  const speed = Math.hypot(...v);
+  const support = gravity * n[1];
+  const along: Vec = [support * n[0], -gravity + support * n[1], support * n[2]];
+  const downhill = Math.hypot(...along);
+  if (speed === 0 && downhill === 0) return null;
+  const direction: Vec = speed > 0 ? [v[0] / speed, v[1] / speed, v[2] / speed] : [along[0] / downhill, along[1] / downhill, along[2] / downhill];
+  const a: Vec = along.map((c, i) => c - friction * support * direction[i]) as Vec;
+  const after: Vec = v.map((c, i) => c + a[i] * TIME_STEP) as Vec;
+  if (dot(after, direction) <= 0) return null;
+  return {
+    t: prev.t + TIME_STEP,
+    x: prev.x + ((v[0] + after[0]) / 2) * TIME_STEP,
+    y: prev.y + ((v[1] + after[1]) / 2) * TIME_STEP,
+    z: prev.z + ((v[2] + after[2]) / 2) * TIME_STEP,
+    vx: after[0],
+    vy: after[1],
+    vz: after[2],
+  };
+};
+
+// Where a sliding ball stops within the next step, decelerating uniformly
+const stopPoint = (prev: TrajectoryPoint, n: Vec, gravity: number, friction: number): TrajectoryPoint => {
+  const v = velocityOf(prev);
+  const speed = Math.hypot(...v);
+  const support = gravity * n[1];
+  const deceleration = friction * support - dot([support * n[0], -gravity + support * n[1], support * n[2]], v) / (speed || 1);
+  const time = speed > 0 && deceleration > 0 ? Math.min(TIME_STEP, speed / deceleration) : 0;
+  return { t: prev.t + time, x: prev.x + (v[0] * time) / 2, y: prev.y + (v[1] * time) / 2, z: prev.z + (v[2] * time) / 2, vx: 0, vy: 0, vz: 0 };
+};
+
+interface Surroundings {
+  terrain: TerrainSettings;
+  blocks: TerrainBlock[];
+  colliders: Collider[];
+  bounce: BounceSettings | null;
+  gravity: number;
+}
+
+/**
+ * Step a flight from launch until it meets the terrain or a block on it
+ * advance gives the state at the next step from the previous one. With bounce
+ * the ball rebounds off each surface it meets, then slides once the bounces die
+ * away, until friction brings it to rest
+ */
+const fly = (
+  start: TrajectoryPoint,
+  advance: (prev: TrajectoryPoint, t: number) => TrajectoryPoint,
+  { terrain, blocks, colliders, bounce, gravity }: Surroundings
+): Trajectory => {
+  const heightAt = (p: TrajectoryPoint) => getTerrainHeight(terrain, p.x, p.z, blocks);
+  const points: TrajectoryPoint[] = [start];
+  const impacts: Impact[] = [];
+  let apex = start;
+  let firstImpact: { point: TrajectoryPoint; wall: boolean } | null = null;
+  let sliding: Vec | null = null; // Normal of the surface the ball is sliding on
+  let slideStart = 0;
+  let runaway: Trajectory['runaway'] = null;
+
+  const bounceOff = (contact: TrajectoryPoint, wall: boolean, settings: BounceSettings) => {
+    const n = surfaceNormal(terrain, blocks, contact, wall);
+    const before = velocityOf(contact);
+    const result = rebound(before, n, settings);
+    const settles = !wall && result.outSpeed < REST_SPEED;
+    const after = settles ? result.tangent : result.velocity;
+    impacts.push({ t: contact.t, x: contact.x, y: contact.y, z: contact.z, surface: wall ? 'wall' : 'ground', velocityBefore: before, velocityAfter: after });
+    return { point: withVelocity(contact, after), settlesOn: settles ? n : null };
+  };
+
+  while (points[points.length - 1].t < MAX_FLIGHT_TIME) {
+    const prev = points[points.length - 1];
+    if (bounce && firstImpact && Math.hypot(prev.x, prev.z) > GROUND_EXTENT) {
+      runaway = terrain.kind === 'incline' && terrain.inclineAngle < 0 ? 'downhill' : 'off-ground';
+      break;
+    }
+
+    if (sliding && bounce) {
+      const next = slideStep(prev, sliding, gravity, bounce.friction);
+      if (!next) {
+        // Stopped; it stays put unless the slope pulls it back down on the next step
+        if (prev.vx === 0 && prev.vy === 0 && prev.vz === 0) break;
+        points.push(stopPoint(prev, sliding, gravity, bounce.friction));
+        continue;
+      }
+      const ground = heightAt(next);
+      if (next.x < 0 && prev.x >= 0) {
+        // Slid back down to the launcher, which stops it
+        points.push({ ...prev, t: next.t, vx: 0, vy: 0, vz: 0 });
+        break;
+      }
+      const speedingUp = Math.hypot(next.vx, next.vy, next.vz) > Math.hypot(prev.vx, prev.vy, prev.vz);
+      const outward = next.x * next.vx + next.z * next.vz > 0;
+      if (next.t - slideStart > RUNAWAY_SLIDE_TIME && speedingUp && outward) {
+        // Still gathering speed away from the launcher, so it would slide on for as long as the slope lasts
+        points.push({ ...next, y: ground });
+        runaway = 'downhill';
+        break;
+      }
+      if (ground < next.y - 1e-3) {
+        // Slid off an edge, so it is in flight again
+        sliding = null;
+        points.push(next);
+      } else if (ground > next.y + 1e-3) {
+        // Slid into a face: rebound off it and carry on sliding
+        const contact = { ...findLanding(prev, next, terrain, blocks).landing, y: prev.y };
+        points.push(contact, bounceOff(contact, true, bounce).point);
+      } else {
+        points.push({ ...next, y: ground });
+      }
+      continue;
+    }
+
+    const stepped = collide(prev, advance(prev, prev.t + TIME_STEP), colliders);
+    const next = stepped.point;
+    if (stepped.impact) impacts.push(stepped.impact);
+    // A rebound can send the ball up again, so the apex is the highest turning point
+    if (prev.vy > 0 && next.vy <= 0) {
+      const turn = lerpPoint(prev, next, prev.vy / (prev.vy - next.vy));
+      if (turn.y > apex.y) apex = turn;
+    }
+    if (next.y >= heightAt(next)) {
+      points.push(next);
+      continue;
+    }
+
+    const { landing, hitWall } = findLanding(prev, next, terrain, blocks);
+    if (!firstImpact) firstImpact = { point: landing, wall: hitWall };
+    if (!bounce) {
+      points.push(landing);
+      break;
+    }
+    // The impact point is stored twice, before and after, so sampling never blends across the bounce
+    const { point, settlesOn } = bounceOff(landing, hitWall, bounce);
+    points.push(landing, point);
+    sliding = settlesOn;
+    slideStart = point.t;
+  }
+
+  const landing = points[points.length - 1];
+  const impact = firstImpact?.point ?? landing;
+  const horizontalSpeed = Math.hypot(impact.vx, impact.vz);
+  return {
+    points,
+    impacts,
+    range: Math.hypot(landing.x, landing.z),
+    maxHeight: apex.y,
+    apexDistance: Math.hypot(apex.x, apex.z),
+    timeOfFlight: landing.t,
+    landingX: landing.x,
+    landingY: landing.y,
+    landingZ: landing.z,
+    impactSpeed: Math.hypot(horizontalSpeed, impact.vy),
+    impactAngle: (Math.atan2(-impact.vy, horizontalSpeed) * 180) / Math.PI,
+    hitWall: firstImpact?.wall ?? false,
+    runaway,
+  };
+};
+
+const getLaunchPoint = (launch: LaunchParams, terrain: TerrainSettings): TrajectoryPoint => {
+  const horizontal = launch.speed * Math.cos(launch.elevation);
+  return {
+    t: 0,
+    x: 0,
+    y: terrain.launchHeight,
+    z: 0,
+    vx: horizontal * Math.cos(launch.azimuth),
+    vy: launch.speed * Math.sin(launch.elevation),
+    vz: horizontal * Math.sin(launch.azimuth),
+  };
+};
+
+// Vacuum flight, sampled at the same step as the drag flight; constant acceleration makes each step exact
+export const getIdealTrajectory = (
+  launch: LaunchParams,
+  terrain: TerrainSettings,
+  blocks: TerrainBlock[] = [],
+  colliders: Collider[] = [],
+  bounce: BounceSettings | null = null
+): Trajectory => {
+  return fly(getLaunchPoint(launch, terrain), (prev, t) => {
+    const dt = t - prev.t;
+    return {
+      t,
+      x: prev.x + prev.vx * dt,
+      y: prev.y + prev.vy * dt - 0.5 * launch.gravity * dt * dt,
+      z: prev.z + prev.vz * dt,
+      vx: prev.vx,
+      vy: prev.vy - launch.gravity * dt,
+      vz: prev.vz,
+    };
+  }, { terrain, blocks, colliders, bounce, gravity: launch.gravity });
+};
+
+// Flight with quadratic drag in the wind; the apex and landing are interpolated between steps
+export const getDragTrajectory = (
+  launch: LaunchParams,
+  drag: DragSettings,
+  wind: WindSettings,
+  terrain: TerrainSettings,
+  blocks: TerrainBlock[] = [],
+  colliders: Collider[] = [],
+  bounce: BounceSettings | null = null
+): Trajectory => {
+  const k = getDragConstant(drag);
+  const windAt = createWindField(wind);
+  return fly(getLaunchPoint(launch, terrain), (prev, t) => {
+    const [x, y, z, vx, vy, vz] = rk4Step([prev.x, prev.y, prev.z, prev.vx, prev.vy, prev.vz], prev.t, k, launch.gravity, windAt, TIME_STEP);
+    return { t, x, y, z, vx, vy, vz };
+  }, { terrain, blocks, colliders, bounce, gravity: launch.gravity });
+};
+
+// State at time t, interpolated between the stored steps (clamped to the flight)
+export const sampleTrajectory = (trajectory: Trajectory, t: number): TrajectoryPoint => {
+  const { points } = trajectory;
+  if (t <= 0) return points[0];
+  if (t >= trajectory.timeOfFlight) return points[points.length - 1];
+  // Impacts fall between steps, so the pair either side of t is found by bisection
+  let lo = 0;
+  let hi = points.length - 1;
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >> 1;
+    if (points[mid].t <= t) {
+      lo = mid;
+    } else {
+      hi = mid;
+    }
+  }
+  const a = points[lo];
+  const b = points[hi];
+  return lerpPoint(a, b, b.t > a.t ? (t - a.t) / (b.t - a.t) : 0);
+};
+
+// ½mv² for a velocity given as its components (J)
+export const getKineticEnergy = (mass: number, [vx, vy, vz]: [number, number, number]) => {
+  return 0.5 * mass * (vx * vx + vy * vy + vz * vz);
+};
+
+// Kinetic energy an impact took out of the ball (J)
+export const getImpactEnergyLoss = (impact: Impact, mass: number) => {
+  return getKineticEnergy(mass, impact.velocityBefore) - getKineticEnergy(mass, impact.velocityAfter);
+};
+
+// mgh, measured from the ground at the foot of the launcher (J)
+export const getPotentialEnergy = (mass: number, gravity: number, height: number) => {
+  return mass * gravity * height;
+};
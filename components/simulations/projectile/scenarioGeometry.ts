@@ -0,0 +1,120 @@
+import * as THREE from 'three';
+import type { ProjectileScenario } from '../../../types/projectile';
+import { BOARD_HEIGHT, BOARD_WIDTH, getMonkeyHeight } from './scenarios';
+
+const MONKEY_RADIUS = 0.6;
+const TABLE_LENGTH = 1.2;
+const PLANE_CLEARANCE = 1.2; // Height of the fuselage centre above the release point (m)
+
+const mat = (color: number) => new THREE.MeshStandardMaterial({ color, roughness: 0.7 });
+
+const addBox = (group: THREE.Group, size: [number, number, number], position: [number, number, number], color: number) => {
+  const mesh = new THREE.Mesh(new THREE.BoxGeometry(...size), mat(color));
+  mesh.position.set(...position);
+  mesh.castShadow = true;
+  mesh.receiveShadow = true;
+  group.add(mesh);
+  return mesh;
+};
+
+/**
+ * Props for a classic scenario: the tree and monkey, the table and cup, the
+ * plane and drop zone, or the basketball hoop. The monkey and plane are named
+ * so updateScenarioGroup can move them during the flight
+ */
+export const createScenarioGroup = (scenario: ProjectileScenario): THREE.Group => {
+  const group = new THREE.Group();
+  group.userData.type = 'scenario';
+  const { target, terrain } = scenario;
+
+  switch (target.kind) {
+    case 'monkey': {
+      const trunkX = target.distance + 2;
+      const trunkHeight = target.height + MONKEY_RADIUS * 2 + 3;
+      const trunk = new THREE.Mesh(new THREE.CylinderGeometry(0.5, 0.7, trunkHeight, 12), mat(0x744210));
+      trunk.position.set(trunkX, trunkHeight / 2, 0);
+      trunk.castShadow = true;
+      group.add(trunk);
+      const branchY = target.height + MONKEY_RADIUS * 2 + 0.5;
+      addBox(group, [3, 0.3, 0.3], [target.distance + 0.5, branchY, 0], 0x744210);
+
+      const monkey = new THREE.Mesh(new THREE.SphereGeometry(MONKEY_RADIUS, 24, 24), mat(0x9c4221));
+      monkey.name = 'monkey';
+      monkey.position.set(target.distance, target.height + MONKEY_RADIUS, 0);
+      monkey.castShadow = true;
+      group.add(monkey);
+
+      // Line of sight from the launcher to the monkey, the way the launcher is aimed
+      const aimLine = new THREE.Line(
+        new THREE.BufferGeometry().setFromPoints([
+          new THREE.Vector3(0, terrain.launchHeight + scenario.ballRadius, 0),
+          new THREE.Vector3(target.distance, target.height + MONKEY_RADIUS, 0),
+        ]),
+        new THREE.LineDashedMaterial({ color: 0xf6e05e, dashSize: 0.8, gapSize: 0.5 })
+      );
+      aimLine.computeLineDistances();
+      group.add(aimLine);
+      break;
+    }
+    case 'cup': {
+      // Table top ending at the launch point, on four legs
+      const top = terrain.launchHeight;
+      addBox(group, [TABLE_LENGTH, 0.05, 0.8], [-TABLE_LENGTH / 2, top - 0.025, 0], 0x975a16);
+      [-0.05, -TABLE_LENGTH + 0.05].forEach(x => {
+        [-0.35, 0.35].forEach(z => addBox(group, [0.05, top - 0.05, 0.05], [x, (top - 0.05) / 2, z], 0x744210));
+      });
+      const cup = new THREE.Mesh(
+        new THREE.CylinderGeometry(target.radius, target.radius * 0.8, 0.15, 24, 1, true),
+        new THREE.MeshStandardMaterial({ color: 0xe53e3e, side: THREE.DoubleSide })
+      );
+      cup.position.set(target.distance, 0.075, 0);
+      group.add(cup);
+      break;
+    }
+    case 'drop-zone': {
+      const zone = new THREE.Mesh(
+        new THREE.CylinderGeometry(target.radius, target.radius, 0.05, 32),
+        new THREE.MeshStandardMaterial({ color: 0xdd6b20, transparent: true, opacity: 0.7 })
+      );
+      zone.position.set(target.distance, 0.03, 0);
+      group.add(zone);
+
+      const plane = new THREE.Group();
+      plane.name = 'plane';
+      addBox(plane, [6, 1, 1], [0, 0, 0], 0xa0aec0);
+      addBox(plane, [1.2, 0.15, 8], [0.3, 0, 0], 0x718096);
+      addBox(plane, [0.8, 1.2, 0.15], [-2.7, 0.8, 0], 0x718096);
+      plane.position.set(0, terrain.launchHeight + PLANE_CLEARANCE, 0);
+      group.add(plane);
+      break;
+    }
+    case 'hoop': {
+      const boardX = target.distance + target.boardGap;
+      const boardBottom = target.rimHeight - 0.15;
+      addBox(group, [0.05, BOARD_HEIGHT, BOARD_WIDTH], [boardX + 0.025, boardBottom + BOARD_HEIGHT / 2, 0], 0xf7fafc);
+      addBox(group, [target.boardGap - target.rimRadius, 0.04, 0.1], [boardX - (target.boardGap - target.rimRadius) / 2, target.rimHeight, 0], 0xdd6b20);
+      const pole = new THREE.Mesh(new THREE.CylinderGeometry(0.08, 0.08, boardBottom + BOARD_HEIGHT / 2, 12), mat(0x4a5568));
+      pole.position.set(boardX + 1, (boardBottom + BOARD_HEIGHT / 2) / 2, 0);
+      group.add(pole);
+      addBox(group, [1, 0.1, 0.1], [boardX + 0.5, boardBottom + BOARD_HEIGHT / 2, 0], 0x4a5568);
+      const rim = new THREE.Mesh(new THREE.TorusGeometry(target.rimRadius, 0.015, 8, 32), mat(0xdd6b20));
+      rim.rotation.x = Math.PI / 2;
+      rim.position.set(target.distance, target.rimHeight, 0);
+      group.add(rim);
+      break;
+    }
+  }
+
+  return group;
+};
+
+// The monkey drops from the moment of launch; the plane flies on at the launch speed
+export const updateScenarioGroup = (group: THREE.Group, scenario: ProjectileScenario, t: number, gravity: number, planeSpeed: number) => {
+  const { target, terrain } = scenario;
+  if (target.kind === 'monkey') {
+    group.getObjectByName('monkey')?.position.setY(getMonkeyHeight(target.height, gravity, t) + MONKEY_RADIUS);
+  }
+  if (target.kind === 'drop-zone') {
+    group.getObjectByName('plane')?.position.set(planeSpeed * t, terrain.launchHeight + PLANE_CLEARANCE, 0);
+  }
+};
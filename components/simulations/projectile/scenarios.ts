@@ -0,0 +1,171 @@
+/**
+ * Classic projectile problems that load their own set-up
+ * Each scenario fixes the starting speed and angle, the ground and launch
+ * height, the props in the scene and what counts as success, so a teacher can
+ * pose the problem without approximating it with the sliders
+ */
+
+import type { Collider, ProjectileScenario, ScenarioId, ScenarioResult, Trajectory } from '../../../types/projectile';
+import { DEFAULT_TERRAIN } from './projectilePhysics';
+
+// Radius of the projectile outside the scenarios (m); trajectories track the bottom of the ball
+export const DEFAULT_BALL_RADIUS = 0.5;
+
+// Rim tube radius and how much speed the rim and backboard give back
+const RIM_TUBE = 0.01; // m
+const RIM_RESTITUTION = 0.6;
+const BOARD_RESTITUTION = 0.7;
+export const BOARD_WIDTH = 1.8; // m
+export const BOARD_HEIGHT = 1.05; // m
+const BOARD_BELOW_RIM = 0.15; // m
+
+export const SCENARIOS: ProjectileScenario[] = [
+  {
+    id: 'monkey-hunter',
+    name: 'Monkey and Hunter',
+    prompt:
+      'A monkey hangs from a branch 30 m away and 17.3 m up. The launcher is aimed straight at it, and the monkey lets go the instant the dart is fired. Should you aim below the monkey to allow for its fall? Try several speeds.',
+    goal: 'Hit the monkey before it reaches the ground.',
+    velocity: 20,
+    angle: 30,
+    velocityRange: [5, 50, 1],
+    angleRange: [15, 85, 0.5],
+    terrain: { ...DEFAULT_TERRAIN },
+    ballRadius: 0.3,
+    cameraDistance: 45,
+    target: { kind: 'monkey', distance: 30, height: 17.3, hitRadius: 1 },
+  },
+  {
+    id: 'table-roll',
+    name: 'Ball Off a Table',
+    prompt:
+      'A ball rolls off the edge of a table 1.25 m high. How fast must it be rolling to land in the cup on the floor 2 m from the edge? Work out the fall time from the height first.',
+    goal: 'Land the ball in the cup.',
+    velocity: 2,
+    angle: 0,
+    velocityRange: [0.5, 6, 0.1],
+    angleRange: null,
+    terrain: { ...DEFAULT_TERRAIN, launchHeight: 1.25 },
+    ballRadius: 0.1,
+    cameraDistance: 6,
+    target: { kind: 'cup', distance: 2, radius: 0.25 },
+  },
+  {
+    id: 'plane-drop',
+    name: 'Package From a Plane',
+    prompt:
+      'A plane flying level 45 m above the ground releases a supply package. Choose the plane\'s speed so the package lands in the drop zone 90 m ahead of the release point. Where is the plane when the package lands?',
+    goal: 'Land the package in the drop zone.',
+    velocity: 20,
+    angle: 0,
+    velocityRange: [10, 60, 1],
+    angleRange: null,
+    terrain: { ...DEFAULT_TERRAIN, launchHeight: 45 },
+    ballRadius: 0.5,
+    cameraDistance: 90,
+    target: { kind: 'drop-zone', distance: 90, radius: 3 },
+  },
+  {
+    id: 'free-throw',
+    name: 'Basketball Free Throw',
+    prompt:
+      'The ball leaves the shooter\'s hands 2.13 m up, 4 m from the centre of a hoop 3.05 m high. Find a speed and angle that score. A ball that catches the rim or the backboard rebounds off it.',
+    goal: 'Put the ball down through the hoop.',
+    velocity: 6.5,
+    angle: 52,
+    velocityRange: [4, 12, 0.05],
+    angleRange: [30, 75, 1],
+    terrain: { ...DEFAULT_TERRAIN, launchHeight: 2.13 - 0.12 },
+    ballRadius: 0.12,
+    cameraDistance: 8,
+    target: { kind: 'hoop', distance: 4, rimHeight: 3.05, rimRadius: 0.23, boardGap: 0.38 },
+  },
+];
+
+export const getScenario = (id: ScenarioId) => SCENARIOS.find(s => s.id === id) ?? SCENARIOS[0];
+
+// Rim and backboard of the hoop, for a ball whose bottom is the tracked point
+export const getScenarioColliders = (scenario: ProjectileScenario): Collider[] => {
+  const { target, ballRadius } = scenario;
+  if (target.kind !== 'hoop') return [];
+  return [
+    {
+      kind: 'ring',
+      x: target.distance,
+      y: target.rimHeight - ballRadius,
+      z: 0,
+      radius: target.rimRadius,
+      reach: RIM_TUBE + ballRadius,
+      restitution: RIM_RESTITUTION,
+    },
+    {
+      kind: 'board',
+      x: target.distance + target.boardGap,
+      yMin: target.rimHeight - BOARD_BELOW_RIM - 2 * ballRadius,
+      yMax: target.rimHeight - BOARD_BELOW_RIM + BOARD_HEIGHT,
+      halfWidth: BOARD_WIDTH / 2 + ballRadius,
+      reach: ballRadius,
+      restitution: BOARD_RESTITUTION,
+    },
+  ];
+};
+
+// Height of the monkey (its bottom) t seconds after it lets go
+export const getMonkeyHeight = (height: number, gravity: number, t: number) => Math.max(0, height - 0.5 * gravity * t * t);
+
+// Distance from where the flight landed to the centre of a floor target
+const landingMiss = (trajectory: Trajectory, distance: number) => Math.hypot(trajectory.landingX - distance, trajectory.landingZ);
+
+export const judgeScenario = (scenario: ProjectileScenario, trajectory: Trajectory, gravity: number): ScenarioResult => {
+  const { target } = scenario;
+  switch (target.kind) {
+    case 'monkey': {
+      // Closest approach of the dart to the falling monkey while the monkey is still in the air
+      const closest = trajectory.points.reduce((best, p) => {
+        const monkeyY = getMonkeyHeight(target.height, gravity, p.t);
+        return monkeyY > 0 ? Math.min(best, Math.hypot(p.x - target.distance, p.y - monkeyY, p.z)) : best;
+      }, Infinity);
+      if (closest <= target.hitRadius) {
+        return { success: true, message: 'Hit! The dart and the monkey fall the same distance below the aim line in the same time.' };
+      }
+      return {
+        success: false,
+        message: Number.isFinite(closest)
+          ? `Missed the monkey by ${closest.toFixed(1)} m.`
+          : 'The monkey reached the ground before the dart got there.',
+      };
+    }
+    case 'cup':
+    case 'drop-zone': {
+      const miss = landingMiss(trajectory, target.distance);
+      const short = trajectory.landingX < target.distance;
+      if (miss <= target.radius) {
+        if (target.kind === 'cup') return { success: true, message: 'In the cup!' };
+        // The plane keeps its speed, so it is still directly above a package falling in a vacuum
+        const planeAhead = trajectory.points[0].vx * trajectory.timeOfFlight - trajectory.landingX;
+        return {
+          success: true,
+          message: `In the drop zone! The plane was ${Math.abs(planeAhead) < 0.05 ? 'directly overhead' : `${planeAhead.toFixed(1)} m ahead`} when it landed.`,
+        };
+      }
+      return { success: false, message: `Landed ${miss.toFixed(2)} m ${short ? 'short' : 'long'}.` };
+    }
+    case 'hoop': {
+      // Scored when the ball's centre passes down through the rim plane inside the ring
+      const rimY = target.rimHeight - scenario.ballRadius;
+      const scored = trajectory.points.some((p, i) => {
+        const prev = trajectory.points[i - 1];
+        if (!prev || !(prev.y >= rimY && p.y < rimY)) return false;
+        const f = (prev.y - rimY) / (prev.y - p.y);
+        const x = prev.x + (p.x - prev.x) * f;
+        const z = prev.z + (p.z - prev.z) * f;
+        return Math.hypot(x - target.distance, z) < target.rimRadius;
+      });
+      if (scored) return { success: true, message: 'Scored! Two points.' };
+      return {
+        success: false,
+        message: trajectory.maxHeight < rimY ? 'Air ball: it never got up to the rim.' : 'No basket.',
+      };
+    }
+  }
+};
@@ -0,0 +1,99 @@
+import * as THREE from 'three';
+import type { TerrainBlock, TerrainSettings } from '../../../types/projectile';
+
+// Depth of the terrain blocks across the scene (z)
+const TERRAIN_DEPTH = 40;
+
+const rockMat = () => new THREE.MeshStandardMaterial({ color: 0x5a4a3a, roughness: 0.9 });
+const towerMat = () => new THREE.MeshStandardMaterial({ color: 0x4a5568, roughness: 0.7 });
+
+/**
+ * Meshes for the ground profile the projectile lands on, matching getTerrainHeight
+ * The flat ground at y = 0 stays in the scene; this adds the launch tower, cliff,
+ * landing platform or sloped ground on top of it, and any challenge blocks.
+ * Scenarios that bring their own launcher (a table, a plane) leave out the tower
+ */
+export const createTerrainGroup = (terrain: TerrainSettings, blocks: TerrainBlock[] = [], withTower = true): THREE.Group => {
+  const group = new THREE.Group();
+  group.userData.type = 'terrain';
+
+  // Launch tower under the pad, except on a cliff where the cliff itself is the launch point
+  if (withTower && terrain.kind !== 'cliff' && terrain.launchHeight > 0) {
+    const tower = new THREE.Mesh(new THREE.BoxGeometry(3, terrain.launchHeight, 3), towerMat());
+    tower.position.set(0, terrain.launchHeight / 2, 0);
+    tower.castShadow = true;
+    tower.receiveShadow = true;
+    group.add(tower);
+  }
+
+  if (terrain.kind === 'cliff' && terrain.launchHeight > 0) {
+    // Cliff top runs from behind the launcher to the edge
+    const length = terrain.cliffEdge + 30;
+    const cliff = new THREE.Mesh(new THREE.BoxGeometry(length, terrain.launchHeight, TERRAIN_DEPTH), rockMat());
+    cliff.position.set(terrain.cliffEdge - length / 2, terrain.launchHeight / 2, 0);
+    cliff.castShadow = true;
+    cliff.receiveShadow = true;
+    group.add(cliff);
+  }
+
+  if (terrain.kind === 'platform') {
+    const platform = new THREE.Mesh(
+      new THREE.BoxGeometry(terrain.platformWidth, terrain.platformHeight, 10),
+      new THREE.MeshStandardMaterial({ color: 0x4a6a5a, roughness: 0.7 })
+    );
+    platform.position.set(terrain.platformStart + terrain.platformWidth / 2, terrain.platformHeight / 2, 0);
+    platform.castShadow = true;
+    platform.receiveShadow = true;
+    group.add(platform);
+  }
+
+  if (terrain.kind === 'incline') {
+    // Slope through the foot of the launcher, from a little behind it to well past any range
+    const slope = (terrain.inclineAngle * Math.PI) / 180;
+    const length = 300;
+    const along = length / 2 - 20;
+    const plane = new THREE.Mesh(
+      new THREE.PlaneGeometry(length, TERRAIN_DEPTH * 2).rotateX(-Math.PI / 2),
+      new THREE.MeshStandardMaterial({ color: 0x2d3748, side: THREE.DoubleSide })
+    );
+    plane.rotation.z = slope;
+    plane.position.set(along * Math.cos(slope), along * Math.sin(slope), 0);
+    plane.receiveShadow = true;
+    group.add(plane);
+
+    const grid = new THREE.GridHelper(length, length / 2, 0x4a5568, 0x4a5568);
+    grid.material.opacity = 0.5;
+    grid.material.transparent = true;
+    grid.rotation.z = slope;
+    grid.position.copy(plane.position);
+    grid.position.y += 0.02;
+    group.add(grid);
+  }
+
+  // Challenge target pillars and obstacle walls
+  blocks.forEach(block => {
+    if (block.height <= 0) return;
+    const isTarget = block.kind === 'target';
+    const mesh = new THREE.Mesh(
+      new THREE.BoxGeometry(block.width, block.height, block.depth),
+      new THREE.MeshStandardMaterial({ color: isTarget ? 0xb7791f : 0x9b2c2c, roughness: 0.7 })
+    );
+    mesh.position.set(block.start + block.width / 2, block.height / 2, 0);
+    mesh.castShadow = true;
+    mesh.receiveShadow = true;
+    group.add(mesh);
+  });
+
+  return group;
+};
+
+// Free the GPU resources of a terrain or scenario group once it has been removed from the scene
+export const disposeTerrainGroup = (group: THREE.Group) => {
+  group.traverse(object => {
+    if (object instanceof THREE.Mesh || object instanceof THREE.Line) {
+      object.geometry.dispose();
+      const materials = Array.isArray(object.material) ? object.material : [object.material];
+      materials.forEach(m => m.dispose());
+    }
+  });
+};
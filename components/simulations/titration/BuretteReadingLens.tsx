@@ -0,0 +1,127 @@
+/**
+ * Magnified burette scale for reading mode
+ * The 3D burette is only ticked every 2 mL, far too coarse to read to 0.05 mL,
+ * so the lens draws the full 0.1 mL graduations itself on a 2D canvas rather
+ * than zooming a camera onto the 3D tube. It stays tied to the 3D burette
+ * through its inputs: the meniscus sits at the simulator's burette reading on
+ * a scale of the same capacity, and the parallax shift comes from the angle
+ * between the scene camera and the 3D meniscus
+ */
+
+import { useEffect, useRef } from 'react';
+
+interface BuretteReadingLensProps {
+  reading: number; // True position of the bottom of the meniscus (mL)
+  parallax: number; // Apparent shift of the meniscus against the scale (mL)
+  elevation: number; // Eye angle above the meniscus (radians), sets how much of the surface is seen
+  liquidColor: string;
+  capacity: number; // Full-scale volume of the burette (mL)
+  width?: number;
+  height?: number;
+}
+
+// Scale visible either side of the meniscus (mL)
+const HALF_WINDOW = 1.2;
+
+/**
+ * Magnified view of the burette graduations around the meniscus
+ * Draws the 0.1 mL graduations with the meniscus where the eye would see it
+ * against the scale, so parallax shows up as a misplaced meniscus
+ */
+export default function BuretteReadingLens({
+  reading,
+  parallax,
+  elevation,
+  liquidColor,
+  capacity,
+  width = 280,
+  height = 240
+}: BuretteReadingLensProps) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const pxPerML = height / (2 * HALF_WINDOW);
+    // The scale reads downwards: larger volumes lower in the lens
+    const toY = (volume: number) => height / 2 + (volume - reading) * pxPerML;
+    const tubeLeft = width * 0.3;
+    const tubeRight = width * 0.7;
+
+    // Glass tube
+    ctx.fillStyle = '#e8f1f8';
+    ctx.fillRect(0, 0, width, height);
+    ctx.fillStyle = '#f7fbff';
+    ctx.fillRect(tubeLeft, 0, tubeRight - tubeLeft, height);
+
+    // Liquid below the apparent meniscus, with the curved surface on top
+    const meniscusY = toY(reading + parallax);
+    const surfaceDepth = 10; // Depth of the meniscus curve (px)
+    const tilt = Math.min(1, Math.abs(Math.sin(elevation)) * 6) * 8; // Seen from above or below the surface opens into an ellipse
+    ctx.globalAlpha = 0.55;
+    ctx.fillStyle = liquidColor;
+    ctx.beginPath();
+    ctx.moveTo(tubeLeft, meniscusY - surfaceDepth);
+    ctx.quadraticCurveTo((tubeLeft + tubeRight) / 2, meniscusY + surfaceDepth, tubeRight, meniscusY - surfaceDepth);
+    ctx.lineTo(tubeRight, height);
+    ctx.lineTo(tubeLeft, height);
+    ctx.closePath();
+    ctx.fill();
+    ctx.globalAlpha = 1;
+
+    ctx.strokeStyle = '#1e3a5f';
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.moveTo(tubeLeft, meniscusY - surfaceDepth);
+    ctx.quadraticCurveTo((tubeLeft + tubeRight) / 2, meniscusY + surfaceDepth, tubeRight, meniscusY - surfaceDepth);
+    ctx.stroke();
+    if (tilt > 0.5) {
+      ctx.beginPath();
+      ctx.ellipse((tubeLeft + tubeRight) / 2, meniscusY - surfaceDepth / 2, (tubeRight - tubeLeft) / 2, tilt, 0, 0, Math.PI * 2);
+      ctx.stroke();
+    }
+
+    // Graduations: every 0.1 mL, longer at 0.5 mL, numbered at each whole mL
+    ctx.strokeStyle = '#111827';
+    ctx.fillStyle = '#111827';
+    ctx.font = 'bold 16px monospace';
+    ctx.textBaseline = 'middle';
+    const first = Math.ceil((reading - HALF_WINDOW) * 10);
+    const last = Math.floor((reading + HALF_WINDOW) * 10);
+    for (let tenth = first; tenth <= last; tenth++) {
+      if (tenth < 0 || tenth > capacity * 10) continue;
+      const y = toY(tenth / 10);
+      const length = tenth % 10 === 0 ? 0.5 : tenth % 5 === 0 ? 0.35 : 0.2;
+      ctx.lineWidth = tenth % 10 === 0 ? 2 : 1;
+      ctx.beginPath();
+      ctx.moveTo(tubeLeft, y);
+      ctx.lineTo(tubeLeft + (tubeRight - tubeLeft) * length, y);
+      ctx.stroke();
+      if (tenth % 10 === 0) {
+        ctx.fillText(String(tenth / 10), tubeRight + 8, y);
+      }
+    }
+
+    // Tube walls
+    ctx.strokeStyle = '#94a3b8';
+    ctx.lineWidth = 3;
+    ctx.beginPath();
+    ctx.moveTo(tubeLeft, 0);
+    ctx.lineTo(tubeLeft, height);
+    ctx.moveTo(tubeRight, 0);
+    ctx.lineTo(tubeRight, height);
+    ctx.stroke();
+  }, [reading, parallax, elevation, liquidColor, capacity, width, height]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={width}
+      height={height}
+      className="rounded-lg border border-cyan-500 border-opacity-50"
+    />
+  );
+}
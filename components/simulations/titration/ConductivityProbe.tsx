@@ -0,0 +1,65 @@
+import React from 'react';
+import * as THREE from 'three';
+import MeterProbe from './MeterProbe';
+
+interface ConductivityProbeProps {
+  position?: THREE.Vector3; // Centre of the flask the probe dips into
+  scale?: number;
+  reading: number; // mS/cm
+  visible?: boolean;
+  scene: THREE.Scene;
+  groupRef?: React.RefObject<THREE.Group>;
+}
+
+const BODY_COLOR = 0x222222;
+
+// Probe shaft - enters through the neck beside the titrant stream
+// and reaches down into the liquid (flask bottom is at y = -2)
+const buildElectrode = (shaftX: number, shaftZ: number) => {
+  const bodyMat = new THREE.MeshStandardMaterial({
+    color: BODY_COLOR,
+    roughness: 0.6,
+    metalness: 0.2
+  });
+
+  const platinumMat = new THREE.MeshStandardMaterial({
+    color: 0xd8d8e0,
+    roughness: 0.2,
+    metalness: 1.0
+  });
+
+  const shaft = new THREE.Mesh(
+    new THREE.CylinderGeometry(0.07, 0.07, 5.2, 16),
+    bodyMat
+  );
+  shaft.position.set(shaftX, 1.0, shaftZ);
+  shaft.castShadow = true;
+
+  // Pair of platinum electrode plates at the tip
+  const plates = [-0.05, 0.05].map(offset => {
+    const plate = new THREE.Mesh(
+      new THREE.BoxGeometry(0.02, 0.3, 0.12),
+      platinumMat
+    );
+    plate.position.set(shaftX + offset, -1.75, shaftZ);
+    return plate;
+  });
+
+  return [shaft, ...plates];
+};
+
+export default function ConductivityProbe({ reading, ...props }: ConductivityProbeProps) {
+  return (
+    <MeterProbe
+      {...props}
+      type="conductivityProbe"
+      side={1}
+      buildElectrode={buildElectrode}
+      cableColor={BODY_COLOR}
+      readout={reading.toFixed(2)}
+      unit="mS/cm"
+      screenColor="#1b2b1b"
+      textColor="#7dff9a"
+    />
+  );
+}
@@ -8,6 +8,7 @@ interface IntegratedGlassmorphismBuretteProps {
   liquidLevelRef?: React.RefObject<number>;
   liquidColor?: string;
   stopcockOpen?: boolean;
+  stopcockOpening?: number; // Fraction of full opening (0-1) - sets handle angle and stream thickness
   scene: THREE.Scene;
   groupRef?: React.RefObject<THREE.Group>;
   gripWidth?: number; // Add grip width control
@@ -20,6 +21,7 @@ export default function IntegratedGlassmorphismBurette({
   liquidLevelRef,
   liquidColor = "#1976d2",
   stopcockOpen = false,
+  stopcockOpening = 1,
   scene,
   groupRef,
   gripWidth = 25,
@@ -35,6 +37,7 @@ export default function IntegratedGlassmorphismBurette({
   const clampGroupRef = useRef<THREE.Group | null>(null);
   const animationIdRef = useRef<number | null>(null);
   const stopcockOpenRef = useRef(stopcockOpen);
+  const stopcockOpeningRef = useRef(stopcockOpening);
 
   // Function to calculate dynamic stream length based on conical flask liquid level
   const calculateStreamLength = (flaskLiquidLevel: number) => {
@@ -59,13 +62,18 @@ export default function IntegratedGlassmorphismBurette({
     return Math.max(0.5, Math.min(5.0, distance));
   };
 
+  // Stream radius grows with the square root of the opening so its cross-section tracks the flow rate
+  const calculateStreamRadius = (opening: number) => {
+    return 0.02 * Math.sqrt(Math.max(0, Math.min(1, opening)));
+  };
+
   // Function to update stream geometry dynamically
   const updateStreamGeometry = (flaskLiquidLevel: number) => {
     if (!streamRef.current || !outletRef.current) return;
     
     const newLength = calculateStreamLength(flaskLiquidLevel);
     // Use CapsuleGeometry instead of CylinderGeometry to avoid sphere artifacts
-    const newGeometry = new THREE.CapsuleGeometry(0.015, newLength, 4, 8);
+    const newGeometry = new THREE.CapsuleGeometry(calculateStreamRadius(stopcockOpeningRef.current), newLength, 4, 8);
     
     // Dispose old geometry to prevent memory leak
     streamRef.current.geometry.dispose();
@@ -280,7 +288,7 @@ export default function IntegratedGlassmorphismBurette({
     // Stream visualization - dynamic length based on conical flask liquid level
     const initialStreamLength = calculateStreamLength(conicalFlaskLiquidLevel);
     // Use CapsuleGeometry instead of CylinderGeometry to avoid sphere artifacts
-    const streamGeom = new THREE.CapsuleGeometry(0.015, initialStreamLength, 4, 8);
+    const streamGeom = new THREE.CapsuleGeometry(calculateStreamRadius(stopcockOpening), initialStreamLength, 4, 8);
     const streamMat = new THREE.MeshPhysicalMaterial({
       color: new THREE.Color(liquidColor),
       transparent: true,
@@ -417,16 +425,17 @@ export default function IntegratedGlassmorphismBurette({
     stopcockOpenRef.current = stopcockOpen;
   }, [stopcockOpen]);
 
-  // Update stream geometry when conical flask liquid level changes
+  // Update stream geometry when conical flask liquid level or stopcock opening changes
   useEffect(() => {
+    stopcockOpeningRef.current = stopcockOpening;
     updateStreamGeometry(conicalFlaskLiquidLevel);
-  }, [conicalFlaskLiquidLevel]);
+  }, [conicalFlaskLiquidLevel, stopcockOpening]);
 
-  // Update stopcock rotation
+  // Update stopcock rotation - a quarter turn is fully open
   useEffect(() => {
     if (!stopcockRef.current) return;
-    stopcockRef.current.rotation.x = stopcockOpen ? Math.PI / 2 : 0;
-  }, [stopcockOpen]);
+    stopcockRef.current.rotation.x = stopcockOpen ? (Math.PI / 2) * stopcockOpening : 0;
+  }, [stopcockOpen, stopcockOpening]);
 
   // Update liquid color
   useEffect(() => {
@@ -0,0 +1,170 @@
+import React, { useEffect, useRef } from 'react';
+import * as THREE from 'three';
+
+// Flag shown beside the unit on the LCD, such as a calibration status
+export interface MeterStatus {
+  label: string;
+  color: string;
+}
+
+interface MeterProbeProps {
+  position?: THREE.Vector3; // Centre of the flask the probe dips into
+  scale?: number;
+  type: string; // userData type of the probe group
+  side: 1 | -1; // Side of the flask the probe enters and the meter stands
+  buildElectrode: (shaftX: number, shaftZ: number) => THREE.Object3D[]; // Probe meshes, from the top cap down to the tip
+  cableColor: number;
+  readout: string; // Value shown on the meter
+  unit: string;
+  status?: MeterStatus | null;
+  screenColor: string;
+  textColor: string;
+  visible?: boolean;
+  scene: THREE.Scene;
+  groupRef?: React.RefObject<THREE.Group>;
+}
+
+// Canvas used for the meter's LCD readout
+const DISPLAY_WIDTH = 256;
+const DISPLAY_HEIGHT = 128;
+
+const drawDisplay = (
+  canvas: HTMLCanvasElement,
+  { readout, unit, status, screenColor, textColor }: Pick<MeterProbeProps, 'readout' | 'unit' | 'status' | 'screenColor' | 'textColor'>
+) => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+
+  ctx.fillStyle = screenColor;
+  ctx.fillRect(0, 0, DISPLAY_WIDTH, DISPLAY_HEIGHT);
+  ctx.fillStyle = textColor;
+  ctx.textAlign = 'center';
+  ctx.font = 'bold 56px monospace';
+  ctx.fillText(readout, DISPLAY_WIDTH / 2, 72);
+  ctx.font = '24px monospace';
+  if (!status) {
+    ctx.fillText(unit, DISPLAY_WIDTH / 2, 108);
+    return;
+  }
+  ctx.fillText(unit, DISPLAY_WIDTH / 2 - 50, 108);
+  ctx.fillStyle = status.color;
+  ctx.fillText(status.label, DISPLAY_WIDTH / 2 + 40, 108);
+};
+
+/**
+ * Probe dipped into the flask, cabled to a bench meter with an LCD readout
+ * The probe's own electrode comes from buildElectrode; the cable, meter and
+ * display are shared by every meter. All geometries, materials and textures
+ * are disposed when the scene is rebuilt, so remounts do not leak GPU memory
+ */
+export default function MeterProbe({
+  position = new THREE.Vector3(0, 2.5, 0),
+  scale = 1,
+  type,
+  side,
+  buildElectrode,
+  cableColor,
+  readout,
+  unit,
+  status = null,
+  screenColor,
+  textColor,
+  visible = true,
+  scene,
+  groupRef
+}: MeterProbeProps) {
+  const probeGroupRef = useRef<THREE.Group | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const textureRef = useRef<THREE.CanvasTexture | null>(null);
+
+  useEffect(() => {
+    if (!scene) return;
+
+    const probeGroup = new THREE.Group();
+    probeGroup.position.copy(position);
+    probeGroup.scale.setScalar(scale);
+    probeGroup.userData.type = type;
+    probeGroupRef.current = probeGroup;
+    if (groupRef) {
+      (groupRef as React.MutableRefObject<THREE.Group | null>).current = probeGroup;
+    }
+
+    // Probe enters through the neck, a little to one side of the titrant stream
+    const shaftX = 0.2 * side;
+    const shaftZ = 0.2;
+    buildElectrode(shaftX, shaftZ).forEach(mesh => probeGroup.add(mesh));
+
+    const casingMat = new THREE.MeshStandardMaterial({
+      color: 0xe8e8e8,
+      roughness: 0.5,
+      metalness: 0.1
+    });
+
+    // Cable from the top of the probe to the meter on the bench
+    const meterX = 3.2 * side;
+    const cableCurve = new THREE.CatmullRomCurve3([
+      new THREE.Vector3(shaftX, 3.6, shaftZ),
+      new THREE.Vector3(shaftX + 0.8 * side, 4.2, shaftZ),
+      new THREE.Vector3(2.6 * side, 2.0, 0.6),
+      new THREE.Vector3(meterX, -1.5, 0.6),
+    ]);
+    const cable = new THREE.Mesh(
+      new THREE.TubeGeometry(cableCurve, 32, 0.03, 8, false),
+      new THREE.MeshStandardMaterial({ color: cableColor, roughness: 0.5, metalness: 0.2 })
+    );
+    probeGroup.add(cable);
+
+    // Meter body with an LCD readout facing the camera
+    const meter = new THREE.Mesh(
+      new THREE.BoxGeometry(1.4, 0.9, 0.6),
+      casingMat
+    );
+    meter.position.set(meterX, -1.6, 0.6);
+    meter.castShadow = true;
+    probeGroup.add(meter);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = DISPLAY_WIDTH;
+    canvas.height = DISPLAY_HEIGHT;
+    canvasRef.current = canvas;
+    const texture = new THREE.CanvasTexture(canvas);
+    textureRef.current = texture;
+    drawDisplay(canvas, { readout, unit, status, screenColor, textColor });
+    texture.needsUpdate = true;
+
+    const display = new THREE.Mesh(
+      new THREE.PlaneGeometry(1.1, 0.55),
+      new THREE.MeshBasicMaterial({ map: texture })
+    );
+    display.position.set(meterX, -1.55, 0.91);
+    probeGroup.add(display);
+
+    probeGroup.visible = visible;
+    scene.add(probeGroup);
+
+    return () => {
+      scene.remove(probeGroup);
+      probeGroup.traverse(obj => {
+        if (!(obj instanceof THREE.Mesh)) return;
+        obj.geometry.dispose();
+        (Array.isArray(obj.material) ? obj.material : [obj.material]).forEach((material: THREE.Material) => material.dispose());
+      });
+      texture.dispose();
+    };
+  }, [scene, position, scale]);
+
+  // Refresh the LCD when the reading or its status changes
+  useEffect(() => {
+    if (!canvasRef.current || !textureRef.current) return;
+    drawDisplay(canvasRef.current, { readout, unit, status, screenColor, textColor });
+    textureRef.current.needsUpdate = true;
+  }, [readout, unit, status?.label, status?.color, screenColor, textColor]);
+
+  useEffect(() => {
+    if (probeGroupRef.current) {
+      probeGroupRef.current.visible = visible;
+    }
+  }, [visible]);
+
+  return null; // This component only manages 3D objects
+}
@@ -0,0 +1,91 @@
+import React from 'react';
+import * as THREE from 'three';
+import MeterProbe from './MeterProbe';
+import type { MeterStatus } from './MeterProbe';
+
+interface PHProbeProps {
+  position?: THREE.Vector3; // Centre of the flask the probe dips into
+  scale?: number;
+  reading: number; // pH shown on the meter
+  calibrated: boolean;
+  visible?: boolean;
+  scene: THREE.Scene;
+  groupRef?: React.RefObject<THREE.Group>;
+}
+
+const CAP_COLOR = 0x1e3a5f;
+
+// Calibration status flag, as on a bench meter
+const CALIBRATED: MeterStatus = { label: 'CAL', color: '#7dff9a' };
+const UNCALIBRATED: MeterStatus = { label: 'UNCAL', color: '#ffb74d' };
+
+// Combination electrode - enters through the neck on the opposite side to the
+// conductivity probe and reaches into the liquid (flask bottom is at y = -2)
+const buildElectrode = (shaftX: number, shaftZ: number) => {
+  const capMat = new THREE.MeshStandardMaterial({
+    color: CAP_COLOR,
+    roughness: 0.5,
+    metalness: 0.2
+  });
+
+  const glassMat = new THREE.MeshPhysicalMaterial({
+    color: 0xffffff,
+    roughness: 0.05,
+    transmission: 0.9,
+    transparent: true,
+    opacity: 0.5,
+    thickness: 0.05
+  });
+
+  const electrodeMat = new THREE.MeshStandardMaterial({
+    color: 0xc0c0c0,
+    roughness: 0.3,
+    metalness: 0.9
+  });
+
+  const cap = new THREE.Mesh(
+    new THREE.CylinderGeometry(0.09, 0.09, 1.2, 16),
+    capMat
+  );
+  cap.position.set(shaftX, 3.0, shaftZ);
+  cap.castShadow = true;
+
+  const body = new THREE.Mesh(
+    new THREE.CylinderGeometry(0.08, 0.08, 4.0, 16),
+    glassMat
+  );
+  body.position.set(shaftX, 0.4, shaftZ);
+
+  // Internal Ag/AgCl reference wire visible through the glass
+  const wire = new THREE.Mesh(
+    new THREE.CylinderGeometry(0.015, 0.015, 3.8, 8),
+    electrodeMat
+  );
+  wire.position.set(shaftX, 0.4, shaftZ);
+
+  // pH-sensitive glass bulb at the tip
+  const bulb = new THREE.Mesh(
+    new THREE.SphereGeometry(0.1, 16, 12),
+    glassMat
+  );
+  bulb.position.set(shaftX, -1.65, shaftZ);
+
+  return [cap, body, wire, bulb];
+};
+
+export default function PHProbe({ reading, calibrated, ...props }: PHProbeProps) {
+  return (
+    <MeterProbe
+      {...props}
+      type="phProbe"
+      side={-1}
+      buildElectrode={buildElectrode}
+      cableColor={CAP_COLOR}
+      readout={reading.toFixed(2)}
+      unit="pH"
+      status={calibrated ? CALIBRATED : UNCALIBRATED}
+      screenColor="#1b2430"
+      textColor="#8fd8ff"
+    />
+  );
+}
@@ -0,0 +1,76 @@
+/**
+ * Reading the burette by eye
+ * The graduations are on the front of the tube while the bottom of the meniscus
+ * sits on its axis, so unless the eye is level with the meniscus the line of
+ * sight meets the scale above or below it (parallax). Each reading carries
+ * ±0.05 mL, so a titre (two readings) carries ±0.10 mL, which sets the
+ * percentage uncertainty of the concentration worked out from it
+ */
+
+import type { BuretteFill, BuretteReadingEntry } from '../../../types/titration';
+
+// Uncertainty of a single burette reading (mL), half the 0.1 mL graduation
+export const READING_UNCERTAINTY = 0.05;
+
+// Depth of the meniscus behind the graduations, in mL of scale (about 0.6 cm at 1 mL/cm)
+const PARALLAX_DEPTH = 0.6;
+
+// Eye within this angle of the meniscus (radians) counts as level
+export const EYE_LEVEL_TOLERANCE = (2 * Math.PI) / 180;
+
+/**
+ * Apparent shift of the reading for an eye above (positive elevation) or below the meniscus
+ * The scale reads downwards, so looking down makes the reading too small
+ */
+export const getParallaxShift = (elevation: number) => -PARALLAX_DEPTH * Math.tan(elevation);
+
+export type ReadingVerdict = 'good' | 'parallax' | 'misread';
+
+// Compare a reading with the true level, identifying parallax when that explains the error
+export const checkReading = (entry: BuretteReadingEntry) => {
+  const error = entry.entered - entry.actual;
+  let verdict: ReadingVerdict = 'misread';
+  if (Math.abs(error) <= READING_UNCERTAINTY + 1e-9) {
+    verdict = 'good';
+  } else if (Math.abs(entry.entered - (entry.actual + entry.parallax)) <= READING_UNCERTAINTY + 1e-9) {
+    verdict = 'parallax';
+  }
+  return { error, verdict };
+};
+
+/**
+ * Titre from the student's own readings, summed over every burette fill
+ * Two readings per fill, so the uncertainty adds 2 × 0.05 mL for each
+ * Returns null until every fill has both readings
+ */
+export const getReadTitre = (fills: BuretteFill[]) => {
+  if (fills.length === 0 || fills.some(f => !f.initialRead || !f.finalRead)) return null;
+  return {
+    titre: fills.reduce((sum, f) => sum + (f.finalRead!.entered - f.initialRead!.entered), 0),
+    actualTitre: fills.reduce((sum, f) => sum + (f.finalRead!.actual - f.initialRead!.actual), 0),
+    uncertainty: fills.length * 2 * READING_UNCERTAINTY,
+  };
+};
+
+/**
+ * c(analyte) = c(titrant) × titre / (mole ratio × aliquot), with the titre's
+ * percentage uncertainty carried straight through to the concentration
+ */
+export const propagateConcentration = (
+  titre: number,
+  titreUncertainty: number,
+  titrantConc: number,
+  molarRatio: number,
+  aliquotVolume: number
+) => {
+  const concentration = (titrantConc * titre) / (molarRatio * aliquotVolume);
+  const percentUncertainty = titre > 0 ? (titreUncertainty / titre) * 100 : Infinity;
+  return {
+    concentration,
+    uncertainty: (concentration * percentUncertainty) / 100,
+    percentUncertainty,
+  };
+};
+
+// Percentage error of a result against the accepted value
+export const getPercentageError = (value: number, accepted: number) => ((value - accepted) / accepted) * 100;
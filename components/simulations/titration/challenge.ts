@@ -0,0 +1,31 @@
+/**
+ * Unknown-concentration challenge for the titration simulator
+ * The hidden concentration comes from a seed so a class can share one challenge
+ */
+
+import type { TitrationChallenge } from '../../../types/titration';
+import { createSeededRandom } from '../../../utils/random';
+
+// Answers within this fraction of the hidden value are marked correct
+export const CHALLENGE_TOLERANCE = 0.02;
+
+const MIN_CONCENTRATION = 0.05;
+const MAX_CONCENTRATION = 0.2;
+
+export const createChallenge = (seed: string): TitrationChallenge => {
+  const random = createSeededRandom(seed.trim().toUpperCase());
+  const raw = MIN_CONCENTRATION + random() * (MAX_CONCENTRATION - MIN_CONCENTRATION);
+  return {
+    seed: seed.trim().toUpperCase(),
+    concentration: parseFloat(raw.toFixed(4)),
+    submittedAnswer: null,
+  };
+};
+
+export const gradeAnswer = (answer: number, actual: number) => {
+  const relativeError = (answer - actual) / actual;
+  return {
+    relativeError,
+    correct: Math.abs(relativeError) <= CHALLENGE_TOLERANCE,
+  };
+};
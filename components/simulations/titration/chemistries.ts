@@ -0,0 +1,255 @@
+/**
+ * Pluggable titration chemistries
+ * Each chemistry defines its stoichiometry (equivalence volumes and mole ratio),
+ * the quantity measured in the flask, and the colour model for the flask liquid.
+ * The simulator only talks to this interface, so new reaction types can be added
+ * here without touching the burette, flask or chart code
+ */
+
+import * as THREE from 'three';
+import type {
+  Analyte,
+  BackTitrationSample,
+  BufferRecipe,
+  ChemistryId,
+  Indicator,
+  MeasuredQuantity
+} from '../../../types/titration';
+import {
+  calculateMixturePH,
+  calculatePH,
+  getAnalyte,
+  getBufferCapacity,
+  getEquivalenceVolumes,
+  getNeutralPH,
+  getTitrantName
+} from './titrationChemistry';
+import { getIndicatorColor } from './indicators';
+import { getIodineColor, getPermanganateColor, solveIodineThiosulfate, solvePermanganate } from './redoxChemistry';
+
+// Everything the user has configured about the flask and burette contents
+export interface TitrationSetup {
+  analyte: Analyte; // Acid-base analyte (ignored by the redox chemistries)
+  concentration: number; // Analyte mol/L
+  volume: number; // Analyte aliquot (mL)
+  titrantConc: number; // mol/L
+  temperature: number; // °C
+  backTitration: BackTitrationSample;
+  buffer: BufferRecipe;
+}
+
+export interface FlaskColorOptions {
+  indicator: Indicator;
+  starchAdded: boolean;
+}
+
+// How the end point shows up in the flask
+export type ColorModel = 'indicator' | 'self-indicating' | 'starch';
+
+export interface TitrationChemistry {
+  id: ChemistryId;
+  name: string;
+  description: string;
+  quantity: MeasuredQuantity; // What the chart plots against volume
+  colorModel: ColorModel;
+  titrantColor: string; // Burette liquid colour
+  defaultConcentrations: { analyte: number; titrant: number }; // mol/L giving a titre of about 25 mL
+  supportsChallenge: boolean; // Whether the unknown-concentration challenge applies
+  getAnalyteName: (setup: TitrationSetup) => string;
+  getAnalyteFormula: (setup: TitrationSetup) => string;
+  getTitrantName: (setup: TitrationSetup) => string;
+  getMolarRatio: (setup: TitrationSetup, equivalenceIndex: number) => number; // Moles titrant per mole analyte
+  getEquivalenceVolumes: (setup: TitrationSetup) => number[];
+  measure: (setup: TitrationSetup, titrantVol: number) => number; // In the units of QUANTITY_INFO
+  getFlaskColor: (setup: TitrationSetup, titrantVol: number, options: FlaskColorOptions) => THREE.Color;
+  getReference?: (setup: TitrationSetup, titrantVol: number) => number; // Same additions into a comparison solution
+}
+
+// Axis labels, units and default ranges for each measured quantity
+export const QUANTITY_INFO: Record<MeasuredQuantity, { label: string; unit: string; decimals: number; domain: [number | 'auto', number | 'auto'] }> = {
+  pH: { label: 'pH', unit: '', decimals: 2, domain: [0, 14] },
+  conductivity: { label: 'κ', unit: 'mS/cm', decimals: 2, domain: [0, 'auto'] },
+  potential: { label: 'E', unit: 'mV', decimals: 0, domain: ['auto', 'auto'] },
+};
+
+export const CACO3_MOLAR_MASS = 100.09; // g/mol
+
+/**
+ * Moles of HCl added, used by the CaCO3 (CaCO3 + 2HCl -> CaCl2 + CO2 + H2O)
+ * and left over for the NaOH titration
+ */
+export const getBackTitrationMoles = (sample: BackTitrationSample) => {
+  const added = sample.reagentConc * sample.reagentVolume / 1000;
+  const carbonate = sample.sampleMass / CACO3_MOLAR_MASS;
+  const reacted = Math.min(added, 2 * carbonate);
+  return { added, carbonate, reacted, excess: added - reacted };
+};
+
+const HYDROCHLORIC_ACID = getAnalyte('hcl');
+
+const acidBase: TitrationChemistry = {
+  id: 'acid-base',
+  name: 'Acid-base',
+  description: 'Neutralisation followed by pH, with an acid-base indicator',
+  quantity: 'pH',
+  colorModel: 'indicator',
+  titrantColor: '#4488ff',
+  defaultConcentrations: { analyte: 0.1, titrant: 0.1 },
+  supportsChallenge: true,
+  getAnalyteName: setup => setup.analyte.name,
+  getAnalyteFormula: setup => setup.analyte.formula,
+  getTitrantName: setup => getTitrantName(setup.analyte),
+  getMolarRatio: (_setup, equivalenceIndex) => equivalenceIndex + 1,
+  getEquivalenceVolumes: setup => getEquivalenceVolumes(setup.analyte, setup.concentration, setup.volume, setup.titrantConc),
+  measure: (setup, titrantVol) => calculatePH(setup.analyte, setup.concentration, setup.volume, setup.titrantConc, titrantVol, setup.temperature),
+  getFlaskColor: (setup, titrantVol, { indicator }) => getIndicatorColor(indicator, acidBase.measure(setup, titrantVol)),
+};
+
+const permanganate: TitrationChemistry = {
+  id: 'permanganate',
+  name: 'Redox: KMnO4 / Fe2+',
+  description: 'Acidified iron(II) oxidised by permanganate; the first excess drop turns the flask pink',
+  quantity: 'potential',
+  colorModel: 'self-indicating',
+  titrantColor: '#8e24aa',
+  defaultConcentrations: { analyte: 0.1, titrant: 0.02 },
+  supportsChallenge: true,
+  getAnalyteName: () => 'Iron(II) sulfate',
+  getAnalyteFormula: () => 'Fe2+',
+  getTitrantName: () => 'KMnO4',
+  getMolarRatio: () => 1 / 5,
+  getEquivalenceVolumes: setup => [(setup.concentration * setup.volume) / (5 * setup.titrantConc)],
+  measure: (setup, titrantVol) => solvePermanganate(setup.concentration, setup.volume, setup.titrantConc, titrantVol, setup.temperature).potential * 1000,
+  getFlaskColor: (setup, titrantVol) => {
+    const { fe3Fraction, permanganate: excess } = solvePermanganate(setup.concentration, setup.volume, setup.titrantConc, titrantVol, setup.temperature);
+    return getPermanganateColor(fe3Fraction, excess);
+  },
+};
+
+const iodineThiosulfate: TitrationChemistry = {
+  id: 'iodine-thiosulfate',
+  name: 'Redox: I2 / thiosulfate',
+  description: 'Iodine reduced by thiosulfate; add starch near the end point for a sharp blue-black to colourless change',
+  quantity: 'potential',
+  colorModel: 'starch',
+  titrantColor: '#ccccE6',
+  defaultConcentrations: { analyte: 0.05, titrant: 0.1 },
+  supportsChallenge: true,
+  getAnalyteName: () => 'Iodine (in excess KI)',
+  getAnalyteFormula: () => 'I2',
+  getTitrantName: () => 'Na2S2O3',
+  getMolarRatio: () => 2,
+  getEquivalenceVolumes: setup => [(2 * setup.concentration * setup.volume) / setup.titrantConc],
+  measure: (setup, titrantVol) => solveIodineThiosulfate(setup.concentration, setup.volume, setup.titrantConc, titrantVol, setup.temperature).potential * 1000,
+  getFlaskColor: (setup, titrantVol, { starchAdded }) => {
+    const { iodine } = solveIodineThiosulfate(setup.concentration, setup.volume, setup.titrantConc, titrantVol, setup.temperature);
+    return getIodineColor(iodine, starchAdded);
+  },
+};
+
+// The excess HCl behaves as a strong-acid analyte in the reagent volume
+const getExcessAcidConc = (sample: BackTitrationSample) => getBackTitrationMoles(sample).excess / (sample.reagentVolume / 1000);
+
+const backTitration: TitrationChemistry = {
+  id: 'back-titration',
+  name: 'Back titration: CaCO3',
+  description: 'Dissolve CaCO3 in a known excess of HCl, then titrate the unreacted acid with NaOH',
+  quantity: 'pH',
+  colorModel: 'indicator',
+  titrantColor: '#4488ff',
+  defaultConcentrations: { analyte: 0.1, titrant: 0.1 },
+  supportsChallenge: false,
+  getAnalyteName: () => 'Excess HCl (after CaCO3)',
+  getAnalyteFormula: () => 'HCl',
+  getTitrantName: () => 'NaOH',
+  getMolarRatio: () => 1,
+  getEquivalenceVolumes: setup => [getBackTitrationMoles(setup.backTitration).excess * 1000 / setup.titrantConc],
+  measure: (setup, titrantVol) => {
+    const sample = setup.backTitration;
+    // Before the acid goes in the flask holds only the solid and some water
+    if (!sample.reagentAdded) return getNeutralPH(setup.temperature);
+    return calculatePH(HYDROCHLORIC_ACID, getExcessAcidConc(sample), sample.reagentVolume, setup.titrantConc, titrantVol, setup.temperature);
+  },
+  getFlaskColor: (setup, titrantVol, { indicator }) => getIndicatorColor(indicator, backTitration.measure(setup, titrantVol)),
+};
+
+// The buffer's weak acid: the selected analyte if it is one, otherwise ethanoic acid
+export const getBufferAcid = (setup: TitrationSetup) => {
+  return setup.analyte.type === 'acid' && setup.analyte.strength === 'weak' ? setup.analyte : getAnalyte('ethanoic');
+};
+
+/**
+ * Flask contents after titrantVol mL, as concentrations in the final volume.
+ * The sodium salt counts as NaOH already added to the weak acid, and HCl from
+ * the burette counts as negative strong base
+ */
+const getBufferMixture = (setup: TitrationSetup, titrantVol: number) => {
+  const { acidConc, baseConc, addition } = setup.buffer;
+  const totalVol = setup.volume + titrantVol;
+  const added = setup.titrantConc * titrantVol * (addition === 'base' ? 1 : -1) / totalVol;
+  return {
+    acidTotal: (acidConc + baseConc) * setup.volume / totalVol, // HA + A-
+    strongBase: baseConc * setup.volume / totalVol + added,
+    added, // The same addition into water
+  };
+};
+
+// Buffer capacity (mol/(L pH)) of the buffer and of unbuffered water after titrantVol mL
+export const getBufferCapacities = (setup: TitrationSetup, titrantVol: number) => {
+  const acid = getBufferAcid(setup);
+  const { acidTotal, strongBase, added } = getBufferMixture(setup, titrantVol);
+  return {
+    buffer: getBufferCapacity(acid, acidTotal, strongBase, setup.temperature),
+    water: getBufferCapacity(acid, 0, added, setup.temperature),
+  };
+};
+
+const buffer: TitrationChemistry = {
+  id: 'buffer',
+  name: 'Buffer workbench',
+  description: 'Prepare a weak acid / conjugate base buffer, then add strong acid or base and compare with unbuffered water',
+  quantity: 'pH',
+  colorModel: 'indicator',
+  titrantColor: '#4488ff',
+  defaultConcentrations: { analyte: 0.1, titrant: 0.1 },
+  supportsChallenge: false,
+  getAnalyteName: setup => `${getBufferAcid(setup).name} buffer`,
+  getAnalyteFormula: setup => getBufferAcid(setup).formula,
+  getTitrantName: setup => (setup.buffer.addition === 'base' ? 'NaOH' : 'HCl'),
+  getMolarRatio: () => 1,
+  // The buffer is exhausted once the added titrant has used up the conjugate base (acid added) or the weak acid (base added)
+  getEquivalenceVolumes: setup => {
+    const { acidConc, baseConc, addition } = setup.buffer;
+    return [((addition === 'base' ? acidConc : baseConc) * setup.volume) / setup.titrantConc];
+  },
+  measure: (setup, titrantVol) => {
+    const { acidTotal, strongBase } = getBufferMixture(setup, titrantVol);
+    return calculateMixturePH(getBufferAcid(setup), acidTotal, strongBase, setup.temperature);
+  },
+  getFlaskColor: (setup, titrantVol, { indicator }) => getIndicatorColor(indicator, buffer.measure(setup, titrantVol)),
+  // Unbuffered water: no weak acid, only the strong acid or base from the burette
+  getReference: (setup, titrantVol) => {
+    return calculateMixturePH(getBufferAcid(setup), 0, getBufferMixture(setup, titrantVol).added, setup.temperature);
+  },
+};
+
+/**
+ * Acid-base titration of a primary standard the student has prepared: the
+ * setup's analyte, concentration, volume and titrant concentration are the
+ * actual values after weighing, dilution and pipetting, not the recorded ones
+ */
+const standardisation: TitrationChemistry = {
+  ...acidBase,
+  id: 'standardisation',
+  name: 'Standardisation: primary standard',
+  description: 'Weigh a primary standard, make it up in a volumetric flask and pipette an aliquot to find the titrant concentration',
+  supportsChallenge: false,
+};
+
+export const CHEMISTRIES: TitrationChemistry[] = [acidBase, permanganate, iodineThiosulfate, backTitration, buffer, standardisation];
+
+export const DEFAULT_CHEMISTRY_ID: ChemistryId = 'acid-base';
+
+export const getChemistry = (id: ChemistryId): TitrationChemistry => {
+  return CHEMISTRIES.find(c => c.id === id) ?? CHEMISTRIES[0];
+};
@@ -0,0 +1,48 @@
+/**
+ * Conductometric titration model
+ * The solution's conductivity is the sum of each ion's concentration times its
+ * molar ionic conductivity, using the equilibrium composition from the pH model.
+ * Fast-moving H+ and OH- dominate, so the curve falls to a minimum (or kink)
+ * at each equivalence point instead of showing a pH jump
+ */
+
+import type { Analyte } from '../../../types/titration';
+import { getFlaskComposition } from './titrationChemistry';
+
+// Limiting molar ionic conductivities at 25°C (S cm²/mol)
+export const ION_CONDUCTIVITIES = {
+  'H+': 349.8,
+  'OH-': 198.6,
+  'Na+': 50.1,
+  'Cl-': 76.3,
+};
+
+// Ionic conductivities rise by roughly 2% per °C
+const TEMPERATURE_COEFFICIENT = 0.02;
+
+/**
+ * Conductivity of the flask contents in mS/cm
+ * With λ in S cm²/mol and c in mol/L, κ (mS/cm) = Σ λ c
+ */
+export const calculateConductivity = (
+  analyte: Analyte,
+  concentration: number,
+  volume: number,
+  titrantConc: number,
+  titrantVol: number,
+  temperature = 25
+) => {
+  const composition = getFlaskComposition(analyte, concentration, volume, titrantConc, titrantVol, temperature);
+  if (!composition) return 0;
+
+  const spectatorConductivity = analyte.type === 'acid' ? ION_CONDUCTIVITIES['Na+'] : ION_CONDUCTIVITIES['Cl-'];
+  let kappa = composition.h * ION_CONDUCTIVITIES['H+']
+    + composition.oh * ION_CONDUCTIVITIES['OH-']
+    + composition.titrantConc * spectatorConductivity;
+
+  composition.speciesFractions.forEach((fraction, j) => {
+    kappa += composition.analyteConc * fraction * (analyte.ionConductivities[j] ?? 0);
+  });
+
+  return kappa * (1 + TEMPERATURE_COEFFICIENT * (temperature - 25));
+};
@@ -0,0 +1,154 @@
+/**
+ * End-point determination from recorded titration data
+ * Works only on the collected points, as a student would, so the detected end
+ * point can be compared with the theoretical equivalence volume. The derivative
+ * methods apply to any measured quantity (pH or electrode potential)
+ * - First derivative: the end point is the maximum of |dpH/dV|
+ * - Second derivative: the end point is where d²pH/dV² crosses zero
+ * - Gran plot: a function of pH that is linear before the end point and
+ *   reaches zero at it, so the end point is found by extrapolating a line
+ */
+
+import type { Analyte, MeasuredQuantity, TitrationDataPoint } from '../../../types/titration';
+import { getPKw } from './titrationChemistry';
+
+export interface AnalysisPoint {
+  volume: number;
+  value: number;
+}
+
+export interface EndPointComparison {
+  endPoint: number | null; // Detected from the data (mL)
+  theoretical: number; // Nearest theoretical equivalence volume (mL)
+  error: number | null; // endPoint - theoretical (mL)
+}
+
+// Points closer than this (mL) are merged before differentiating to avoid spikes
+const MIN_VOLUME_STEP = 0.01;
+
+// Slope between neighbouring points, placed at the midpoint of each interval
+const differentiate = (points: AnalysisPoint[]): AnalysisPoint[] => {
+  const result: AnalysisPoint[] = [];
+  for (let i = 1; i < points.length; i++) {
+    const dV = points[i].volume - points[i - 1].volume;
+    if (dV < MIN_VOLUME_STEP) continue;
+    result.push({
+      volume: (points[i].volume + points[i - 1].volume) / 2,
+      value: (points[i].value - points[i - 1].value) / dV,
+    });
+  }
+  return result;
+};
+
+const toSortedSeries = (data: TitrationDataPoint[], quantity: MeasuredQuantity): AnalysisPoint[] => {
+  return data
+    .filter(d => d[quantity] !== undefined)
+    .sort((a, b) => a.volume - b.volume)
+    .map(d => ({ volume: d.volume, value: d[quantity]! }));
+};
+
+export const getFirstDerivative = (data: TitrationDataPoint[], quantity: MeasuredQuantity = 'pH') => {
+  return differentiate(toSortedSeries(data, quantity));
+};
+
+export const getSecondDerivative = (data: TitrationDataPoint[], quantity: MeasuredQuantity = 'pH') => {
+  return differentiate(getFirstDerivative(data, quantity));
+};
+
+// Volume of the steepest part of the curve (largest |dpH/dV|)
+export const findDerivativeEndPoint = (firstDerivative: AnalysisPoint[]) => {
+  if (firstDerivative.length === 0) return null;
+  const peak = firstDerivative.reduce((best, p) => (Math.abs(p.value) > Math.abs(best.value) ? p : best));
+  return peak.value === 0 ? null : peak.volume;
+};
+
+/**
+ * Zero crossing of the second derivative around the steepest point
+ * Linearly interpolated between the two points either side of the sign change
+ */
+export const findSecondDerivativeEndPoint = (secondDerivative: AnalysisPoint[], nearVolume: number | null) => {
+  if (nearVolume === null) return null;
+
+  let best: number | null = null;
+  for (let i = 1; i < secondDerivative.length; i++) {
+    const a = secondDerivative[i - 1];
+    const b = secondDerivative[i];
+    if (a.value === 0 || Math.sign(a.value) === Math.sign(b.value)) continue;
+    const crossing = a.volume + (b.volume - a.volume) * (a.value / (a.value - b.value));
+    if (best === null || Math.abs(crossing - nearVolume) < Math.abs(best - nearVolume)) {
+      best = crossing;
+    }
+  }
+  return best;
+};
+
+/**
+ * Gran function for the region before the first end point
+ * Strong acid:  (V0 + V) 10^-pH       Weak acid:  V 10^-pH
+ * Strong base:  (V0 + V) 10^(pH-pKw)  Weak base:  V 10^(pH-pKw)
+ * Each falls linearly to zero at the end point. Values are scaled so the
+ * largest is 1, since only the zero intercept matters
+ */
+export const getGranPlot = (data: TitrationDataPoint[], analyte: Analyte, analyteVolume: number, temperature?: number) => {
+  const pKw = getPKw(temperature);
+  const weak = analyte.strength === 'weak';
+
+  const raw = toSortedSeries(data, 'pH')
+    .filter(p => p.volume > 0 || !weak)
+    .map(p => {
+      const volumeFactor = weak ? p.volume : analyteVolume + p.volume;
+      const exponent = analyte.type === 'acid' ? -p.value : p.value - pKw;
+      return { volume: p.volume, value: volumeFactor * Math.pow(10, exponent) };
+    });
+
+  const max = raw.reduce((m, p) => Math.max(m, p.value), 0);
+  return max > 0 ? raw.map(p => ({ volume: p.volume, value: p.value / max })) : raw;
+};
+
+/**
+ * Least-squares line through the Gran points before the estimated end point,
+ * extrapolated to where it crosses zero. Only the 30-90% region is used, where
+ * the weak-acid approximation holds and the titrant has not yet taken over
+ */
+export const fitGranLine = (gran: AnalysisPoint[], estimatedEndPoint: number | null) => {
+  if (estimatedEndPoint === null) return null;
+
+  const fitted = gran.filter(p => p.volume >= 0.3 * estimatedEndPoint && p.volume <= 0.9 * estimatedEndPoint);
+  if (fitted.length < 3) return null;
+
+  const n = fitted.length;
+  const meanV = fitted.reduce((s, p) => s + p.volume, 0) / n;
+  const meanG = fitted.reduce((s, p) => s + p.value, 0) / n;
+  let sxy = 0;
+  let sxx = 0;
+  fitted.forEach(p => {
+    sxy += (p.volume - meanV) * (p.value - meanG);
+    sxx += (p.volume - meanV) * (p.volume - meanV);
+  });
+  if (sxx === 0) return null;
+
+  const slope = sxy / sxx;
+  const intercept = meanG - slope * meanV;
+  if (slope >= 0) return null; // A Gran line must fall towards the end point
+
+  const endPoint = -intercept / slope;
+  return {
+    endPoint,
+    line: [
+      { volume: 0, value: intercept },
+      { volume: endPoint, value: 0 },
+    ],
+  };
+};
+
+// Match a detected end point with the closest theoretical equivalence volume
+export const compareEndPoint = (endPoint: number | null, equivalenceVolumes: number[]): EndPointComparison => {
+  const theoretical = endPoint === null
+    ? equivalenceVolumes[0]
+    : equivalenceVolumes.reduce((best, v) => (Math.abs(v - endPoint) < Math.abs(best - endPoint) ? v : best));
+  return {
+    endPoint,
+    theoretical,
+    error: endPoint === null ? null : endPoint - theoretical,
+  };
+};
@@ -0,0 +1,140 @@
+/**
+ * Acid-base indicator registry for the titration simulator
+ * Each indicator lists its colour changes; the flask liquid colour is
+ * interpolated across the transition range of whichever stage the pH is in
+ */
+
+import * as THREE from 'three';
+import type { Analyte, Indicator, IndicatorStage } from '../../../types/titration';
+import { findVolumeAtPH, getEquivalenceVolumes, calculatePH } from './titrationChemistry';
+
+// Pale tint used for "colourless" so the liquid stays visible in the flask
+const COLOURLESS = '#ccccE6';
+
+export const INDICATORS: Indicator[] = [
+  {
+    id: 'methyl-orange',
+    name: 'Methyl orange',
+    stages: [{ lowPH: 3.1, highPH: 4.4, acidColor: '#e53935', baseColor: '#fdd835' }],
+  },
+  {
+    id: 'methyl-red',
+    name: 'Methyl red',
+    stages: [{ lowPH: 4.4, highPH: 6.2, acidColor: '#d81b60', baseColor: '#fdd835' }],
+  },
+  {
+    id: 'bromothymol-blue',
+    name: 'Bromothymol blue',
+    stages: [{ lowPH: 6.0, highPH: 7.6, acidColor: '#fdd835', baseColor: '#1e63d6' }],
+  },
+  {
+    id: 'phenolphthalein',
+    name: 'Phenolphthalein',
+    stages: [{ lowPH: 8.2, highPH: 10.0, acidColor: COLOURLESS, baseColor: '#ff1a99' }],
+  },
+  {
+    id: 'thymol-blue',
+    name: 'Thymol blue',
+    stages: [
+      { lowPH: 1.2, highPH: 2.8, acidColor: '#e53935', baseColor: '#fdd835' },
+      { lowPH: 8.0, highPH: 9.6, acidColor: '#fdd835', baseColor: '#1e63d6' },
+    ],
+  },
+  {
+    id: 'universal',
+    name: 'Universal indicator',
+    stages: [
+      { lowPH: 1.0, highPH: 3.5, acidColor: '#d32f2f', baseColor: '#fb8c00' },
+      { lowPH: 3.5, highPH: 5.5, acidColor: '#fb8c00', baseColor: '#fdd835' },
+      { lowPH: 5.5, highPH: 7.0, acidColor: '#fdd835', baseColor: '#43a047' },
+      { lowPH: 7.0, highPH: 9.0, acidColor: '#43a047', baseColor: '#1e63d6' },
+      { lowPH: 9.0, highPH: 11.0, acidColor: '#1e63d6', baseColor: '#6a1b9a' },
+    ],
+  },
+];
+
+export const DEFAULT_INDICATOR_ID = 'phenolphthalein';
+
+export const getIndicator = (id: string): Indicator => {
+  return INDICATORS.find(i => i.id === id) ?? INDICATORS[0];
+};
+
+// pH at which half the indicator is in each form (pKIn)
+export const getStageMidpoint = (stage: IndicatorStage) => (stage.lowPH + stage.highPH) / 2;
+
+export const getIndicatorColor = (indicator: Indicator, pH: number) => {
+  const { stages } = indicator;
+
+  if (pH <= stages[0].lowPH) {
+    return new THREE.Color(stages[0].acidColor);
+  }
+
+  for (let i = 0; i < stages.length; i++) {
+    const stage = stages[i];
+    if (pH < stage.lowPH) {
+      // Between two stages - the colour of the previous stage's base form
+      return new THREE.Color(stages[i - 1].baseColor);
+    }
+    if (pH <= stage.highPH) {
+      const t = (pH - stage.lowPH) / (stage.highPH - stage.lowPH);
+      return new THREE.Color(stage.acidColor).lerp(new THREE.Color(stage.baseColor), t);
+    }
+  }
+
+  return new THREE.Color(stages[stages.length - 1].baseColor);
+};
+
+export interface IndicatorAssessment {
+  stage: IndicatorStage;
+  equivalenceIndex: number; // Which equivalence point (0-based) the indicator detects
+  equivalenceVolume: number;
+  endPointVolume: number | null; // Volume at which the indicator changes colour
+  error: number | null; // endPointVolume - equivalenceVolume (mL)
+  suitable: boolean;
+}
+
+/**
+ * Compare where the indicator changes colour with the nearest equivalence point
+ * The end point is taken at the stage midpoint; an indicator is suitable when
+ * that lies within two drops (0.10 mL) of the equivalence volume
+ */
+export const assessIndicator = (
+  indicator: Indicator,
+  analyte: Analyte,
+  concentration: number,
+  volume: number,
+  titrantConc: number,
+  temperature?: number
+): IndicatorAssessment => {
+  const equivalenceVolumes = getEquivalenceVolumes(analyte, concentration, volume, titrantConc);
+  const equivalencePHs = equivalenceVolumes.map(v => calculatePH(analyte, concentration, volume, titrantConc, v, temperature));
+
+  // Use the stage and equivalence point that are closest in pH
+  let stage = indicator.stages[0];
+  let equivalenceIndex = 0;
+  let bestGap = Infinity;
+  indicator.stages.forEach(s => {
+    equivalencePHs.forEach((pH, i) => {
+      const gap = Math.abs(getStageMidpoint(s) - pH);
+      if (gap < bestGap) {
+        bestGap = gap;
+        stage = s;
+        equivalenceIndex = i;
+      }
+    });
+  });
+
+  const equivalenceVolume = equivalenceVolumes[equivalenceIndex];
+  const maxVolume = equivalenceVolumes[equivalenceVolumes.length - 1] * 1.5;
+  const endPointVolume = findVolumeAtPH(analyte, concentration, volume, titrantConc, getStageMidpoint(stage), maxVolume, temperature);
+  const error = endPointVolume === null ? null : endPointVolume - equivalenceVolume;
+
+  return {
+    stage,
+    equivalenceIndex,
+    equivalenceVolume,
+    endPointVolume,
+    error,
+    suitable: error !== null && Math.abs(error) <= 0.1,
+  };
+};
@@ -0,0 +1,97 @@
+/**
+ * Lab notebook helpers for repeated titrations
+ * Finds concordant titres, derives the analyte concentration and exports
+ * the recorded trials as CSV
+ */
+
+import type { NotebookSummary, TitrationTrial } from '../../../types/titration';
+
+// Titres agreeing within this range (mL) are concordant
+export const CONCORDANCE_TOLERANCE = 0.1;
+
+// Trials are only comparable when run on the same analyte, aliquot and titrant
+const getSetupKey = (trial: TitrationTrial) =>
+  [trial.analyteName, trial.titrantConc, trial.molarRatio, trial.aliquotVolume].join('|');
+
+/**
+ * Largest group of accurate (non-rough) titres from one setup spanning no more than the tolerance
+ * Ties are broken by the tighter spread
+ */
+export const findConcordantTrials = (trials: TitrationTrial[]) => {
+  const setups = new Map<string, TitrationTrial[]>();
+  trials.filter(t => !t.isRough).forEach(trial => {
+    const key = getSetupKey(trial);
+    setups.set(key, [...(setups.get(key) ?? []), trial]);
+  });
+
+  let best: TitrationTrial[] = [];
+  let bestSpread = Infinity;
+
+  setups.forEach(setupTrials => {
+    const accurate = [...setupTrials].sort((a, b) => a.titre - b.titre);
+    for (let start = 0; start < accurate.length; start++) {
+      let end = start;
+      while (end + 1 < accurate.length && accurate[end + 1].titre - accurate[start].titre <= CONCORDANCE_TOLERANCE + 1e-9) {
+        end++;
+      }
+      const group = accurate.slice(start, end + 1);
+      const spread = group[group.length - 1].titre - group[0].titre;
+      if (group.length > best.length || (group.length === best.length && spread < bestSpread)) {
+        best = group;
+        bestSpread = spread;
+      }
+    }
+  });
+
+  return best.length >= 2 ? best : [];
+};
+
+export const summariseNotebook = (trials: TitrationTrial[]): NotebookSummary => {
+  const concordant = findConcordantTrials(trials);
+  if (concordant.length === 0) {
+    return { concordantTrialIds: [], meanTitre: null, analyteConcentration: null };
+  }
+
+  const meanTitre = concordant.reduce((sum, t) => sum + t.titre, 0) / concordant.length;
+  // c(analyte) = c(titrant) x mean titre / (mole ratio x aliquot volume); every concordant trial shares this setup
+  const { titrantConc, molarRatio, aliquotVolume } = concordant[0];
+  const analyteConcentration = (titrantConc * meanTitre) / (molarRatio * aliquotVolume);
+
+  return {
+    concordantTrialIds: concordant.map(t => t.id),
+    meanTitre,
+    analyteConcentration,
+  };
+};
+
+export const exportNotebookCSV = (trials: TitrationTrial[], summary: NotebookSummary) => {
+  const rows: string[] = [
+    'Trial,Rough,Concordant,Fill,Initial reading (mL),Final reading (mL),Titre (mL),Titre uncertainty (mL),End point pH,Indicator,Analyte,Aliquot (mL),Titrant (mol/L)',
+  ];
+
+  trials.forEach((trial, index) => {
+    trial.fills.forEach((fill, fillIndex) => {
+      rows.push([
+        index + 1,
+        trial.isRough ? 'yes' : 'no',
+        summary.concordantTrialIds.includes(trial.id) ? 'yes' : 'no',
+        fillIndex + 1,
+        fill.initialReading.toFixed(2),
+        fill.finalReading !== null ? fill.finalReading.toFixed(2) : '',
+        fillIndex === 0 ? trial.titre.toFixed(2) : '',
+        fillIndex === 0 && trial.titreUncertainty !== null ? trial.titreUncertainty.toFixed(2) : '',
+        fillIndex === 0 && trial.endPointPH !== null ? trial.endPointPH.toFixed(2) : '',
+        `"${trial.indicatorName}"`,
+        `"${trial.analyteName}"`,
+        trial.aliquotVolume,
+        trial.titrantConc,
+      ].join(','));
+    });
+  });
+
+  rows.push('');
+  rows.push(`Mean concordant titre (mL),${summary.meanTitre !== null ? summary.meanTitre.toFixed(2) : ''}`);
+  rows.push(`Analyte concentration (mol/L),${summary.analyteConcentration !== null ? summary.analyteConcentration.toFixed(4) : ''}`);
+
+  return rows.join('\n');
+};
@@ -0,0 +1,107 @@
+/**
+ * Virtual pH meter for the titration simulator
+ * The glass electrode produces a potential that falls linearly with pH, but a
+ * real probe never has the ideal Nernst slope or a zero potential at pH 7. The
+ * meter converts potential to pH with its own slope and offset, which are only
+ * correct once it has been calibrated against standard buffers. The reading
+ * also lags behind the flask (first-order response) and carries random noise
+ */
+
+import type { PHCalibrationPoint, PHMeterSettings } from '../../../types/titration';
+
+// Standard buffers offered for calibration (pH at 25°C)
+export const CALIBRATION_BUFFERS = [4.0, 7.0, 10.0];
+
+// This probe's actual response: 94% of the Nernst slope and +18 mV at pH 7
+const ELECTRODE_SLOPE_EFFICIENCY = 0.94;
+const ELECTRODE_OFFSET = 18; // mV
+
+// A calibration is acceptable within this slope range (fraction of Nernst)
+export const ACCEPTABLE_SLOPE: [number, number] = [0.95, 1.05];
+
+export const DEFAULT_PH_METER: PHMeterSettings = {
+  enabled: false,
+  responseTime: 2,
+  noise: 0.01,
+  calibrationPoints: [],
+  calibrated: false,
+};
+
+export interface MeterCalibration {
+  slope: number; // Fraction of the Nernst slope the meter assumes
+  offset: number; // Potential the meter takes as pH 7 (mV)
+}
+
+// An uncalibrated meter assumes an ideal electrode
+const FACTORY_CALIBRATION: MeterCalibration = { slope: 1, offset: 0 };
+
+// RT ln10 / F in mV (59.16 mV per pH unit at 25°C)
+export const getNernstSlopeMV = (temperature: number) => 0.19842 * (temperature + 273.15);
+
+// Potential of the probe in a solution of the given pH (mV)
+export const getElectrodePotential = (pH: number, temperature: number) => {
+  return ELECTRODE_OFFSET - ELECTRODE_SLOPE_EFFICIENCY * getNernstSlopeMV(temperature) * (pH - 7);
+};
+
+/**
+ * Least-squares line of potential against buffer pH
+ * Two points give the line exactly; a third averages out reading errors
+ */
+export const fitCalibration = (points: PHCalibrationPoint[], temperature: number): MeterCalibration | null => {
+  if (points.length < 2) return null;
+
+  const n = points.length;
+  const meanPH = points.reduce((s, p) => s + p.bufferPH, 0) / n;
+  const meanE = points.reduce((s, p) => s + p.potential, 0) / n;
+  let sxy = 0;
+  let sxx = 0;
+  points.forEach(p => {
+    sxy += (p.bufferPH - meanPH) * (p.potential - meanE);
+    sxx += (p.bufferPH - meanPH) * (p.bufferPH - meanPH);
+  });
+  if (sxx === 0) return null;
+
+  const gradient = sxy / sxx; // mV per pH, negative for a glass electrode
+  return {
+    slope: -gradient / getNernstSlopeMV(temperature),
+    offset: meanE + gradient * (7 - meanPH),
+  };
+};
+
+// Calibration the meter is currently applying
+export const getMeterCalibration = (settings: PHMeterSettings, temperature: number) => {
+  if (!settings.calibrated) return FACTORY_CALIBRATION;
+  return fitCalibration(settings.calibrationPoints, temperature) ?? FACTORY_CALIBRATION;
+};
+
+// pH the meter displays for a solution of the given true pH, before lag and noise
+export const getIndicatedPH = (truePH: number, settings: PHMeterSettings, temperature: number) => {
+  const { slope, offset } = getMeterCalibration(settings, temperature);
+  const potential = getElectrodePotential(truePH, temperature);
+  return 7 - (potential - offset) / (slope * getNernstSlopeMV(temperature));
+};
+
+// Measure a calibration buffer, replacing any earlier reading in the same buffer
+export const addCalibrationPoint = (settings: PHMeterSettings, bufferPH: number, temperature: number): PHMeterSettings => {
+  const potential = getElectrodePotential(bufferPH, temperature) + gaussianNoise(settings.noise) * getNernstSlopeMV(temperature);
+  return {
+    ...settings,
+    calibrationPoints: [...settings.calibrationPoints.filter(p => p.bufferPH !== bufferPH), { bufferPH, potential }]
+      .sort((a, b) => a.bufferPH - b.bufferPH),
+    calibrated: false,
+  };
+};
+
+// First-order approach of the displayed reading towards the indicated pH over dt seconds
+export const stepMeterReading = (previous: number, target: number, dt: number, responseTime: number) => {
+  if (responseTime <= 0) return target;
+  return target + (previous - target) * Math.exp(-dt / responseTime);
+};
+
+// Normally distributed noise with the given standard deviation (Box-Muller)
+export const gaussianNoise = (sigma: number) => {
+  if (sigma <= 0) return 0;
+  const u = 1 - Math.random();
+  const v = Math.random();
+  return sigma * Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+};
@@ -0,0 +1,139 @@
+/**
+ * Redox equilibrium model for the titration simulator
+ * The electrode potential of the flask (vs SHE) is found from an electron
+ * balance between the analyte and titrant couples, each obeying the Nernst
+ * equation, so the potential is defined on both sides of the equivalence
+ * point and at it. The flask is assumed to be strongly acidified ([H+] = 1 M)
+ */
+
+import * as THREE from 'three';
+
+const FARADAY = 96485; // C/mol
+const GAS_CONSTANT = 8.314; // J/(mol K)
+
+// Formal / standard reduction potentials (V)
+const E_FE3_FE2 = 0.68; // Fe3+/Fe2+ in 1 M H2SO4
+const E_MNO4_MN2 = 1.51; // MnO4- + 8H+ + 5e- -> Mn2+ + 4H2O
+const E_I2_I = 0.536; // I2 + 2e- -> 2I-
+const E_S4O6_S2O3 = 0.08; // S4O6^2- + 2e- -> 2S2O3^2-
+
+// Trace Fe3+ from air oxidation, so the starting potential is finite
+const INITIAL_FE3_FRACTION = 1e-4;
+// Excess KI in the iodine flask (mol/L in the aliquot) keeps iodine as I3- and fixes [I-]
+const IODIDE_EXCESS = 0.1;
+
+// RT ln10 / F at the given temperature (0.05916 V at 25°C)
+const getNernstSlope = (temperature: number) => GAS_CONSTANT * (temperature + 273.15) * Math.LN10 / FARADAY;
+
+// Root of a monotonic function of E between two bounds
+const bisectPotential = (balance: (E: number) => number, low: number, high: number) => {
+  const rising = balance(high) > balance(low);
+  for (let i = 0; i < 60; i++) {
+    const mid = (low + high) / 2;
+    if ((balance(mid) > 0) === rising) {
+      high = mid;
+    } else {
+      low = mid;
+    }
+  }
+  return (low + high) / 2;
+};
+
+/**
+ * Permanganate (titrant) against iron(II) (analyte): MnO4- + 5Fe2+ + 8H+ -> Mn2+ + 5Fe3+ + 4H2O
+ * Returns the potential in V and the species needed for the colour model
+ */
+export const solvePermanganate = (
+  ironConc: number,
+  volume: number,
+  permanganateConc: number,
+  titrantVol: number,
+  temperature = 25
+) => {
+  const s = getNernstSlope(temperature);
+  const totalVol = volume + titrantVol;
+  const iron = ironConc * volume / 1000; // mol
+  const manganese = permanganateConc * titrantVol / 1000; // mol
+
+  const fe3Fraction = (E: number) => 1 / (1 + Math.pow(10, (E_FE3_FE2 - E) / s));
+  const mno4Fraction = (E: number) => 1 / (1 + Math.pow(10, 5 * (E_MNO4_MN2 - E) / s));
+  // Electrons lost by the Fe2+ (total iron includes the trace Fe3+) = electrons gained by manganese
+  const balance = (E: number) => iron * ((1 + INITIAL_FE3_FRACTION) * fe3Fraction(E) - INITIAL_FE3_FRACTION) - 5 * manganese * (1 - mno4Fraction(E));
+
+  const E = iron > 0 ? bisectPotential(balance, 0, 2) : E_MNO4_MN2;
+  return {
+    potential: E,
+    fe3Fraction: fe3Fraction(E),
+    permanganate: totalVol > 0 ? manganese * mno4Fraction(E) / (totalVol / 1000) : 0, // mol/L
+  };
+};
+
+/**
+ * Thiosulfate (titrant) against iodine (analyte): I2 + 2S2O3^2- -> 2I- + S4O6^2-
+ * [I-] is taken as the diluted KI excess, which dominates the iodide produced
+ */
+export const solveIodineThiosulfate = (
+  iodineConc: number,
+  volume: number,
+  thiosulfateConc: number,
+  titrantVol: number,
+  temperature = 25
+) => {
+  const s = getNernstSlope(temperature);
+  const totalVol = volume + titrantVol;
+  if (totalVol === 0) return { potential: E_I2_I, iodine: 0 };
+
+  const iodineTotal = iodineConc * volume / totalVol;
+  const thiosulfateTotal = thiosulfateConc * titrantVol / totalVol; // as S2O3^2-
+  const iodide = IODIDE_EXCESS * volume / totalVol;
+
+  const freeIodine = (E: number) => iodide * iodide * Math.pow(10, 2 * (E - E_I2_I) / s);
+  // 2Q[S2O3]^2 + [S2O3] - total = 0, where Q = [S4O6]/[S2O3]^2 from the Nernst equation
+  const freeThiosulfate = (E: number) => {
+    const q = Math.pow(10, 2 * (E - E_S4O6_S2O3) / s);
+    return thiosulfateTotal > 0 ? (-1 + Math.sqrt(1 + 8 * q * thiosulfateTotal)) / (4 * q) : 0;
+  };
+  // Electrons gained by iodine = electrons lost by thiosulfate
+  const balance = (E: number) => 2 * (iodineTotal - Math.min(iodineTotal, freeIodine(E))) - (thiosulfateTotal - freeThiosulfate(E));
+
+  const E = iodineTotal > 0 ? bisectPotential(balance, -0.5, 1.0) : E_S4O6_S2O3;
+  return {
+    potential: E,
+    iodine: Math.min(iodineTotal, freeIodine(E)), // mol/L
+  };
+};
+
+// Flask colours
+const IRON_II = '#d4e8c8'; // Pale green Fe2+
+const IRON_III = '#f0e6a8'; // Pale yellow Fe3+
+const PERMANGANATE = '#8e24aa';
+const COLOURLESS = '#ccccE6'; // Same pale tint the indicators use for "colourless"
+const IODINE_PALE = '#f7e98e'; // Straw yellow
+const IODINE_DEEP = '#8d4b12'; // Brown
+const STARCH_IODINE = '#1a1a4d'; // Blue-black complex
+
+/**
+ * Self-indicating permanganate: the flask goes from pale green to pale yellow as
+ * Fe3+ forms; the first excess drop of MnO4- turns it pink, deepening to purple
+ */
+export const getPermanganateColor = (fe3Fraction: number, permanganate: number) => {
+  const base = new THREE.Color(IRON_II).lerp(new THREE.Color(IRON_III), fe3Fraction);
+  const tint = 1 - Math.exp(-permanganate / 4e-5);
+  return base.lerp(new THREE.Color(PERMANGANATE), tint);
+};
+
+/**
+ * Iodine fades from brown through straw yellow to colourless as it is reduced;
+ * once starch is added any free iodine shows as an intense blue-black
+ */
+export const getIodineColor = (iodine: number, starchAdded: boolean) => {
+  if (starchAdded) {
+    const intensity = 1 - Math.exp(-iodine / 1e-5);
+    return new THREE.Color(COLOURLESS).lerp(new THREE.Color(STARCH_IODINE), intensity);
+  }
+  // Perceived depth of colour follows log[I2]: colourless below 1e-5 M, brown by 0.05 M
+  const t = Math.max(0, Math.min(1, (Math.log10(Math.max(iodine, 1e-12)) + 5) / (Math.log10(0.05) + 5)));
+  return t < 0.5
+    ? new THREE.Color(COLOURLESS).lerp(new THREE.Color(IODINE_PALE), t * 2)
+    : new THREE.Color(IODINE_PALE).lerp(new THREE.Color(IODINE_DEEP), (t - 0.5) * 2);
+};
@@ -0,0 +1,130 @@
+/**
+ * Standardising the titrant against a primary standard
+ * The student weighs the standard, makes it up in a volumetric flask and
+ * pipettes an aliquot into the conical flask. Each step has its own error
+ * (balance readability, material left on the weighing boat, filling to the
+ * mark, glassware tolerance), so the moles actually in the flask differ from
+ * the moles the student calculates from their recorded values
+ */
+
+import type { PrimaryStandard, PrimaryStandardId, StandardPreparation } from '../../../types/titration';
+import { getAnalyte, getProtonCount } from './titrationChemistry';
+
+export const PRIMARY_STANDARDS: PrimaryStandard[] = [
+  { id: 'khp', name: 'Potassium hydrogen phthalate', formula: 'KHC8H4O4', molarMass: 204.22, analyteId: 'khp' },
+  { id: 'na2co3', name: 'Anhydrous sodium carbonate', formula: 'Na2CO3', molarMass: 105.99, analyteId: 'na2co3' },
+];
+
+export const getPrimaryStandard = (id: PrimaryStandardId): PrimaryStandard => {
+  return PRIMARY_STANDARDS.find(s => s.id === id) ?? PRIMARY_STANDARDS[0];
+};
+
+// Glassware and balance (class A tolerances)
+export const BALANCE_READABILITY = 0.001; // g
+export const VOLUMETRIC_FLASK_VOLUME = 250; // mL
+export const VOLUMETRIC_FLASK_TOLERANCE = 0.15; // mL
+export const PIPETTE_VOLUME = 25; // mL
+export const PIPETTE_TOLERANCE = 0.03; // mL
+
+// Fraction of the solid left behind when the weighing boat is not rinsed into the flask
+const UNRINSED_LOSS: [number, number] = [0.003, 0.01];
+
+// The titrant is made up to roughly this concentration, but its true value is within ±5%
+export const NOMINAL_TITRANT_CONC = 0.1;
+const TITRANT_SPREAD = 0.05;
+
+// Uniform value in [-1, 1)
+const spread = (random: () => number) => 2 * random() - 1;
+
+// Start a fresh preparation; the titrant's true concentration is what the student is finding
+export const createPreparation = (standardId: PrimaryStandardId, random: () => number = Math.random): StandardPreparation => ({
+  standardId,
+  stage: 'weigh',
+  balanceReading: null,
+  actualMass: null,
+  flaskVolume: VOLUMETRIC_FLASK_VOLUME,
+  actualFlaskVolume: null,
+  pipetteVolume: PIPETTE_VOLUME,
+  actualAliquot: null,
+  titrantConc: parseFloat((NOMINAL_TITRANT_CONC * (1 + TITRANT_SPREAD * spread(random))).toFixed(4)),
+});
+
+// Moles of titrant per mole of standard at the final end point (1 for KHP, 2 for Na2CO3 to methyl orange)
+export const getStandardMolarRatio = (standard: PrimaryStandard) => getProtonCount(getAnalyte(standard.analyteId));
+
+// Mass that gives a titre of about 25 mL for the aliquot
+export const getSuggestedMass = (standard: PrimaryStandard) => {
+  const aliquotMoles = (NOMINAL_TITRANT_CONC * PIPETTE_VOLUME) / 1000 / getStandardMolarRatio(standard);
+  return aliquotMoles * (VOLUMETRIC_FLASK_VOLUME / PIPETTE_VOLUME) * standard.molarMass;
+};
+
+// Step 1: weigh the solid and transfer it to the volumetric flask
+export const weighStandard = (
+  prep: StandardPreparation,
+  mass: number,
+  rinsedBoat: boolean,
+  random: () => number = Math.random
+): StandardPreparation => {
+  const balanceReading = parseFloat(mass.toFixed(3));
+  const loss = rinsedBoat ? 0 : balanceReading * (UNRINSED_LOSS[0] + (UNRINSED_LOSS[1] - UNRINSED_LOSS[0]) * random());
+  return {
+    ...prep,
+    stage: 'dissolve',
+    balanceReading,
+    actualMass: balanceReading + (BALANCE_READABILITY / 2) * spread(random) - loss,
+  };
+};
+
+// Step 2: make up to the mark; levelOffset is how far the meniscus ended above (+) or below (-) it in mL
+export const makeUpToMark = (prep: StandardPreparation, levelOffset: number, random: () => number = Math.random): StandardPreparation => ({
+  ...prep,
+  stage: 'pipette',
+  actualFlaskVolume: prep.flaskVolume + levelOffset + VOLUMETRIC_FLASK_TOLERANCE * spread(random),
+});
+
+// Step 3: pipette an aliquot into the conical flask, with the same meaning of levelOffset
+export const pipetteAliquot = (prep: StandardPreparation, levelOffset: number, random: () => number = Math.random): StandardPreparation => ({
+  ...prep,
+  stage: 'ready',
+  actualAliquot: prep.pipetteVolume + levelOffset + PIPETTE_TOLERANCE * spread(random),
+});
+
+// What is really in the conical flask once the aliquot is in
+export const getPreparedSolution = (prep: StandardPreparation) => {
+  if (prep.stage !== 'ready' || prep.actualMass === null || prep.actualFlaskVolume === null || prep.actualAliquot === null) {
+    return null;
+  }
+  const standard = getPrimaryStandard(prep.standardId);
+  return {
+    analyte: getAnalyte(standard.analyteId),
+    concentration: prep.actualMass / standard.molarMass / (prep.actualFlaskVolume / 1000),
+    volume: prep.actualAliquot,
+  };
+};
+
+// Moles in the aliquot as the student calculates them from the recorded mass and nominal glassware
+export const getRecordedMoles = (prep: StandardPreparation) => {
+  if (prep.balanceReading === null) return null;
+  const standard = getPrimaryStandard(prep.standardId);
+  return (prep.balanceReading / standard.molarMass) * (prep.pipetteVolume / prep.flaskVolume);
+};
+
+/**
+ * Percentage error each step introduced into the moles in the flask, relative
+ * to the recorded values. A larger flask volume dilutes, so it counts negative
+ */
+export const getErrorBudget = (prep: StandardPreparation) => {
+  if (prep.balanceReading === null || prep.actualMass === null || prep.actualFlaskVolume === null || prep.actualAliquot === null) {
+    return null;
+  }
+  const mass = (prep.actualMass / prep.balanceReading - 1) * 100;
+  const dilution = (prep.flaskVolume / prep.actualFlaskVolume - 1) * 100;
+  const pipette = (prep.actualAliquot / prep.pipetteVolume - 1) * 100;
+  const total = ((1 + mass / 100) * (1 + dilution / 100) * (1 + pipette / 100) - 1) * 100;
+  return { mass, dilution, pipette, total };
+};
+
+// c(titrant) = n(standard) × mole ratio / titre
+export const getStandardisedConcentration = (moles: number, molarRatio: number, titre: number) => {
+  return titre > 0 ? (moles * molarRatio) / (titre / 1000) : null;
+};
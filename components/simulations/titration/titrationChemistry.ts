@@ -0,0 +1,295 @@
+/**
+ * Acid-base equilibrium model for the titration simulator
+ * pH is found from the charge balance of the flask contents, so strong,
+ * weak and polyprotic analytes share one code path and buffer regions
+ * fall out naturally. Kw and the dissociation constants are corrected for
+ * temperature, so the neutral point and equivalence pH shift with it
+ */
+
+import type { Analyte } from '../../../types/titration';
+
+const GAS_CONSTANT = 8.314; // J/(mol K)
+const REFERENCE_TEMPERATURE = 25; // °C at which the tabulated pK values apply
+
+// Named analytes offered in the config picker (pK values, approximate step enthalpies and
+// limiting ionic conductivities at 25°C; neutral species conduct nothing, and the
+// primary-standard salts include their K+ or Na+ counter-ions)
+export const ANALYTES: Analyte[] = [
+  { id: 'hcl', name: 'Hydrochloric acid', formula: 'HCl', type: 'acid', strength: 'strong', ionConductivities: [0, 76.3] },
+  { id: 'hno3', name: 'Nitric acid', formula: 'HNO3', type: 'acid', strength: 'strong', ionConductivities: [0, 71.4] },
+  { id: 'ethanoic', name: 'Ethanoic acid', formula: 'CH3COOH', type: 'acid', strength: 'weak', pKs: [4.76], enthalpies: [-0.4], ionConductivities: [0, 40.9] },
+  { id: 'methanoic', name: 'Methanoic acid', formula: 'HCOOH', type: 'acid', strength: 'weak', pKs: [3.75], enthalpies: [-0.2], ionConductivities: [0, 54.6] },
+  { id: 'benzoic', name: 'Benzoic acid', formula: 'C6H5COOH', type: 'acid', strength: 'weak', pKs: [4.20], enthalpies: [0.4], ionConductivities: [0, 32.4] },
+  { id: 'hypochlorous', name: 'Hypochlorous acid', formula: 'HOCl', type: 'acid', strength: 'weak', pKs: [7.53], enthalpies: [13.8], ionConductivities: [0, 40.0] },
+  { id: 'oxalic', name: 'Oxalic acid', formula: 'H2C2O4', type: 'acid', strength: 'weak', pKs: [1.25, 4.27], enthalpies: [-3.5, -7.0], ionConductivities: [0, 40.2, 148.2] },
+  { id: 'sulfurous', name: 'Sulfurous acid', formula: 'H2SO3', type: 'acid', strength: 'weak', pKs: [1.85, 7.20], enthalpies: [-17.8, -3.6], ionConductivities: [0, 50.0, 144.0] },
+  { id: 'carbonic', name: 'Carbonic acid', formula: 'H2CO3', type: 'acid', strength: 'weak', pKs: [6.35, 10.33], enthalpies: [9.2, 14.8], ionConductivities: [0, 44.5, 138.6] },
+  { id: 'phosphoric', name: 'Phosphoric acid', formula: 'H3PO4', type: 'acid', strength: 'weak', pKs: [2.15, 7.20, 12.35], enthalpies: [-8.0, 3.6, 16.0], ionConductivities: [0, 36.0, 114.0, 207.0] },
+  { id: 'khp', name: 'Potassium hydrogen phthalate', formula: 'KHC8H4O4', type: 'acid', strength: 'weak', pKs: [5.41], enthalpies: [-2.0], ionConductivities: [103.5, 177.5] },
+  { id: 'naoh', name: 'Sodium hydroxide', formula: 'NaOH', type: 'base', strength: 'strong', ionConductivities: [50.1, 0] },
+  { id: 'ammonia', name: 'Ammonia', formula: 'NH3', type: 'base', strength: 'weak', pKs: [4.75], enthalpies: [3.6], ionConductivities: [73.5, 0] },
+  { id: 'methylamine', name: 'Methylamine', formula: 'CH3NH2', type: 'base', strength: 'weak', pKs: [3.36], enthalpies: [-3.0], ionConductivities: [58.7, 0] },
+  { id: 'pyridine', name: 'Pyridine', formula: 'C5H5N', type: 'base', strength: 'weak', pKs: [8.77], enthalpies: [20.0], ionConductivities: [40.0, 0] },
+  { id: 'na2co3', name: 'Sodium carbonate', formula: 'Na2CO3', type: 'base', strength: 'weak', pKs: [3.67, 7.65], enthalpies: [41.0, 46.6], ionConductivities: [100.2, 144.7, 238.8] },
+];
+
+/**
+ * Ionic product of water as pKw, from the empirical fit
+ * pKw = 4470.99/T - 6.0875 + 0.01706 T (T in kelvin), valid for 0-60°C
+ */
+export const getPKw = (temperature = REFERENCE_TEMPERATURE) => {
+  const kelvin = temperature + 273.15;
+  return 4470.99 / kelvin - 6.0875 + 0.01706 * kelvin;
+};
+
+// pH of pure water, where [H+] = [OH-]
+export const getNeutralPH = (temperature = REFERENCE_TEMPERATURE) => getPKw(temperature) / 2;
+
+/**
+ * Shift a 25°C pK value to another temperature with the van't Hoff equation
+ * ln(K2/K1) = -ΔH/R (1/T2 - 1/T1), assuming ΔH is constant over the range
+ */
+const correctPK = (pK: number, enthalpy: number, temperature: number) => {
+  const t1 = REFERENCE_TEMPERATURE + 273.15;
+  const t2 = temperature + 273.15;
+  const lnRatio = -(enthalpy * 1000 / GAS_CONSTANT) * (1 / t2 - 1 / t1);
+  return pK - lnRatio / Math.LN10;
+};
+
+export const DEFAULT_ANALYTE_ID = 'hcl';
+
+export const getAnalyte = (id: string): Analyte => {
+  return ANALYTES.find(a => a.id === id) ?? ANALYTES[0];
+};
+
+// Strong titrant used against each analyte type
+export const getTitrantName = (analyte: Analyte) => (analyte.type === 'acid' ? 'NaOH' : 'HCl');
+
+const isWeak = (analyte: Analyte) => analyte.strength === 'weak' && !!analyte.pKs && analyte.pKs.length > 0;
+
+// Number of protons the analyte donates (acids) or accepts (bases)
+export const getProtonCount = (analyte: Analyte) => (isWeak(analyte) ? analyte.pKs!.length : 1);
+
+/**
+ * Stepwise pKa values of the fully protonated form at the given temperature
+ * For bases these are the pKa values of the conjugate acids, most acidic first
+ */
+const getConjugatePKas = (analyte: Analyte, temperature: number) => {
+  const pKs = (analyte.pKs ?? []).map((pK, i) => correctPK(pK, analyte.enthalpies?.[i] ?? 0, temperature));
+  if (analyte.type === 'acid') return pKs;
+  const pKw = getPKw(temperature);
+  return pKs.reverse().map(pKb => pKw - pKb);
+};
+
+/**
+ * Fraction of the analyte present as each species at a given [H+]
+ * Species j has lost j protons from the fully protonated form, whose charge
+ * is 0 for acids (H_nA) and +n for bases (BH_n^n+). Strong acids are fully
+ * deprotonated; strong bases stay as the spectator cation (Na+)
+ */
+const getSpeciesFractions = (h: number, analyte: Analyte, temperature: number) => {
+  const n = getProtonCount(analyte);
+
+  if (!isWeak(analyte)) {
+    return Array.from({ length: n + 1 }, (_, j) => (j === (analyte.type === 'acid' ? n : 0) ? 1 : 0));
+  }
+
+  const kas = getConjugatePKas(analyte, temperature).map(pKa => Math.pow(10, -pKa));
+  // Relative abundance of each species: h^(n-j) * Ka1 * ... * Kaj
+  const terms: number[] = [];
+  let kaProduct = 1;
+  for (let j = 0; j <= n; j++) {
+    if (j > 0) kaProduct *= kas[j - 1];
+    terms.push(Math.pow(h, n - j) * kaProduct);
+  }
+  const total = terms.reduce((sum, t) => sum + t, 0);
+  return terms.map(t => t / total);
+};
+
+// Charge of species j (see getSpeciesFractions)
+export const getSpeciesCharge = (analyte: Analyte, j: number) => {
+  return (analyte.type === 'acid' ? 0 : getProtonCount(analyte)) - j;
+};
+
+// Mean charge per analyte molecule at a given [H+]
+const getMeanCharge = (h: number, analyte: Analyte, temperature: number) => {
+  return getSpeciesFractions(h, analyte, temperature)
+    .reduce((charge, fraction, j) => charge + getSpeciesCharge(analyte, j) * fraction, 0);
+};
+
+/**
+ * Net charge of the solution at a given [H+]
+ * spectatorCharge is the net charge of fully dissociated spectator ions ([Na+] - [Cl-])
+ * Increases monotonically with [H+], so its root is found by bisection
+ */
+const chargeBalance = (h: number, analyte: Analyte, analyteConc: number, spectatorCharge: number, temperature: number, kw: number) => {
+  return h - kw / h + spectatorCharge + analyteConc * getMeanCharge(h, analyte, temperature);
+};
+
+// [H+] at which the charge balance is zero
+const solveHydrogenIon = (analyte: Analyte, analyteConc: number, spectatorCharge: number, temperature: number, kw: number) => {
+  // Bisect on log10[H+] between pH 16 and pH -2
+  let low = -16;
+  let high = 2;
+  for (let i = 0; i < 60; i++) {
+    const mid = (low + high) / 2;
+    if (chargeBalance(Math.pow(10, mid), analyte, analyteConc, spectatorCharge, temperature, kw) > 0) {
+      high = mid;
+    } else {
+      low = mid;
+    }
+  }
+  return Math.pow(10, (low + high) / 2);
+};
+
+export interface FlaskComposition {
+  h: number; // [H+] (mol/L)
+  oh: number; // [OH-] (mol/L)
+  analyteConc: number; // Total analyte in all its forms, after dilution (mol/L)
+  titrantConc: number; // Titrant spectator ion, Na+ or Cl- (mol/L)
+  speciesFractions: number[]; // Share of the analyte in each protonation state
+}
+
+/**
+ * Equilibrium composition of the flask after titrantVol mL of titrant
+ * Returns null for an empty flask
+ */
+export const getFlaskComposition = (
+  analyte: Analyte,
+  concentration: number,
+  volume: number,
+  titrantConc: number,
+  titrantVol: number,
+  temperature = REFERENCE_TEMPERATURE
+): FlaskComposition | null => {
+  const totalVol = volume + titrantVol;
+  if (totalVol === 0) return null;
+
+  const analyteConc = concentration * volume / totalVol;
+  const addedConc = titrantConc * titrantVol / totalVol;
+  const kw = Math.pow(10, -getPKw(temperature));
+  // Na+ from a NaOH titrant, or Cl- from an HCl titrant
+  const spectatorCharge = analyte.type === 'acid' ? addedConc : -addedConc;
+
+  const h = solveHydrogenIon(analyte, analyteConc, spectatorCharge, temperature, kw);
+  return {
+    h,
+    oh: kw / h,
+    analyteConc,
+    titrantConc: addedConc,
+    speciesFractions: getSpeciesFractions(h, analyte, temperature),
+  };
+};
+
+export const calculatePH = (
+  analyte: Analyte,
+  concentration: number,
+  volume: number,
+  titrantConc: number,
+  titrantVol: number,
+  temperature = REFERENCE_TEMPERATURE
+) => {
+  const composition = getFlaskComposition(analyte, concentration, volume, titrantConc, titrantVol, temperature);
+  if (!composition) return analyte.type === 'acid' ? 1 : 13;
+
+  const pH = -Math.log10(composition.h);
+  return Math.max(0, Math.min(14, pH));
+};
+
+/**
+ * pH of a solution holding the analyte plus a net amount of strong base
+ * (negative for strong acid), all as concentrations in the final volume.
+ * A buffer of HA and NaA is HA plus NaOH equal to the salt, so this covers
+ * buffers and plain water (analyteConc = 0) as well as titration mixtures
+ */
+export const calculateMixturePH = (
+  analyte: Analyte,
+  analyteConc: number,
+  strongBaseConc: number,
+  temperature = REFERENCE_TEMPERATURE
+) => {
+  const kw = Math.pow(10, -getPKw(temperature));
+  // Na+ counts positive, Cl- negative
+  const pH = -Math.log10(solveHydrogenIon(analyte, analyteConc, strongBaseConc, temperature, kw));
+  return Math.max(0, Math.min(14, pH));
+};
+
+/**
+ * Buffer capacity β = dC(base)/dpH in mol/(L pH) for the same mixture
+ * β = ln10 ([H+] + [OH-] + C Var(j)), where Var(j) is the variance of the
+ * number of protons lost across the analyte's species. Water alone has a
+ * minimum of about 4.6e-7 at neutral pH, rising only at the extremes
+ */
+export const getBufferCapacity = (
+  analyte: Analyte,
+  analyteConc: number,
+  strongBaseConc: number,
+  temperature = REFERENCE_TEMPERATURE
+) => {
+  const kw = Math.pow(10, -getPKw(temperature));
+  const h = solveHydrogenIon(analyte, analyteConc, strongBaseConc, temperature, kw);
+  const fractions = getSpeciesFractions(h, analyte, temperature);
+  const mean = fractions.reduce((sum, f, j) => sum + j * f, 0);
+  const variance = fractions.reduce((sum, f, j) => sum + j * j * f, 0) - mean * mean;
+  return Math.LN10 * (h + kw / h + analyteConc * variance);
+};
+
+// Titrant volumes (mL) that neutralise each successive proton of the analyte
+export const getEquivalenceVolumes = (analyte: Analyte, concentration: number, volume: number, titrantConc: number) => {
+  const firstVolume = (concentration * volume) / titrantConc;
+  return Array.from({ length: getProtonCount(analyte) }, (_, i) => firstVolume * (i + 1));
+};
+
+/**
+ * Half-equivalence points: midway between equivalence points the pH is close
+ * to the pKa of the proton being removed (conjugate acid pKa for bases)
+ */
+export const getHalfEquivalencePoints = (
+  analyte: Analyte,
+  concentration: number,
+  volume: number,
+  titrantConc: number,
+  temperature = REFERENCE_TEMPERATURE
+) => {
+  if (!isWeak(analyte)) return [];
+  const firstVolume = (concentration * volume) / titrantConc;
+  // Acids lose their most acidic proton first; bases gain the least acidic one first
+  const pKas = getConjugatePKas(analyte, temperature);
+  const pKaOrder = analyte.type === 'acid' ? pKas : pKas.reverse();
+  return pKaOrder.map((pKa, i) => ({ volume: firstVolume * (i + 0.5), pKa }));
+};
+
+/**
+ * Titrant volume (mL) at which the pH curve crosses a target pH
+ * pH changes monotonically with volume, so the crossing is found by bisection
+ * Returns null if the curve never reaches the target within maxVolume
+ */
+export const findVolumeAtPH = (
+  analyte: Analyte,
+  concentration: number,
+  volume: number,
+  titrantConc: number,
+  targetPH: number,
+  maxVolume: number,
+  temperature = REFERENCE_TEMPERATURE
+) => {
+  const rising = analyte.type === 'acid';
+  const startPH = calculatePH(analyte, concentration, volume, titrantConc, 0, temperature);
+  const endPH = calculatePH(analyte, concentration, volume, titrantConc, maxVolume, temperature);
+  if (rising ? (targetPH < startPH || targetPH > endPH) : (targetPH > startPH || targetPH < endPH)) {
+    return null;
+  }
+
+  let low = 0;
+  let high = maxVolume;
+  for (let i = 0; i < 50; i++) {
+    const mid = (low + high) / 2;
+    const pH = calculatePH(analyte, concentration, volume, titrantConc, mid, temperature);
+    if ((pH < targetPH) === rising) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return (low + high) / 2;
+};
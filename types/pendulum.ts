@@ -0,0 +1,23 @@
+/**
+ * Simple pendulum types shared by the pendulum simulator and its physics
+ */
+
+// Pendulum set-up for θ'' = −(g/L) sin θ − bθ'
+export interface PendulumParams {
+  length: number; // m
+  gravity: number; // m/s²
+  damping: number; // b (1/s)
+}
+
+// Angle from the vertical and angular velocity at one instant
+export interface PendulumState {
+  theta: number; // radians
+  omega: number; // rad/s
+}
+
+// Period of the undamped swing at one release amplitude, exact and as the small-angle formula has it
+export interface PeriodPoint {
+  amplitude: number; // degrees
+  exact: number; // s
+  smallAngle: number; // s
+}
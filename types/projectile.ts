@@ -0,0 +1,223 @@
+/**
+ * Projectile motion types shared by the projectile simulator and its helpers
+ */
+
+// Air resistance on the projectile, F = ½ρCdAv² opposing the velocity
+export interface DragSettings {
+  enabled: boolean;
+  mass: number; // kg
+  dragCoefficient: number; // Cd, about 0.47 for a sphere
+  area: number; // Cross-sectional area (m²)
+  airDensity: number; // kg/m³
+}
+
+// Launch velocity (speed, elevation above the horizontal and azimuth from the +x axis towards +z) and the gravity it flies under
+export interface LaunchParams {
+  speed: number; // m/s
+  elevation: number; // radians
+  azimuth: number; // radians
+  gravity: number; // m/s²
+}
+
+// Bodies the projectile can be launched on; custom takes a gravity value from the student
+export type GravityBodyId = 'earth' | 'moon' | 'mars' | 'jupiter' | 'custom';
+
+export interface GravityBody {
+  id: Exclude<GravityBodyId, 'custom'>;
+  name: string;
+  gravity: number; // Surface gravity (m/s²)
+  airDensity: number; // Surface air density (kg/m³); the Moon has none
+  color: number; // Trail colour in comparison launches
+}
+
+// A flight drawn with its own colour alongside the main projectile
+export interface FlightTrail {
+  color: number;
+  trajectory: Trajectory;
+}
+
+// The same launch made on one body, for side-by-side comparison; coloured by the body
+export interface BodyFlight extends FlightTrail {
+  body: GravityBody;
+}
+
+// A finished launch, kept as a ghost trail and a row of the run comparison
+export interface LaunchRun extends FlightTrail {
+  id: number; // Numbered in launch order
+  velocity: number; // m/s
+  angle: number; // degrees
+}
+
+// Rebounds off the ground and obstacles; without bounce the flight ends at the first impact
+export interface BounceSettings {
+  enabled: boolean;
+  restitution: number; // Rebound speed as a fraction of impact speed, along the surface normal
+  friction: number; // Coefficient of friction between ball and surface, at impacts and while sliding
+}
+
+// Horizontal wind; it acts on the projectile through air resistance, so only the drag flight feels it
+export interface WindSettings {
+  speed: number; // m/s
+  direction: number; // Direction the wind blows towards, degrees from +x towards +z (0 = tailwind)
+  gusts: boolean;
+  gustStrength: number; // Gust amplitude as a fraction of the mean wind speed
+  gustSeed: number; // Fixes the gust pattern so predictions match the flight
+}
+
+// Ground the projectile lands on; the launch point is always at x = 0
+export type TerrainKind = 'flat' | 'cliff' | 'platform' | 'incline';
+
+export interface TerrainSettings {
+  kind: TerrainKind;
+  launchHeight: number; // Height of the launch point above the ground at x = 0 (m); the cliff height for a cliff
+  cliffEdge: number; // Distance from the launch point to the cliff edge (m)
+  platformStart: number; // Near edge of the raised landing platform (m)
+  platformWidth: number; // m
+  platformHeight: number; // m
+  inclineAngle: number; // Slope of the ground in degrees, positive rising away from the launcher
+}
+
+// State of the projectile at one instant of its flight
+export interface TrajectoryPoint {
+  t: number; // s
+  x: number; // Horizontal displacement downrange (m)
+  y: number; // Height above the ground at the foot of the launcher (m)
+  z: number; // Horizontal displacement out of the x-y plane (m)
+  vx: number; // m/s
+  vy: number; // m/s
+  vz: number; // m/s
+}
+
+// A rebound off the ground, an obstacle face or a collider such as a hoop rim
+export interface Impact {
+  t: number; // s
+  x: number; // m
+  y: number; // m
+  z: number; // m
+  surface: 'ground' | 'wall' | 'collider';
+  velocityBefore: [number, number, number]; // vx, vy, vz (m/s)
+  velocityAfter: [number, number, number]; // m/s
+}
+
+/**
+ * A whole flight from launch to landing, with the values students compare
+ * When the ball bounces, the flight runs on until it comes to rest and the
+ * landing values are for where it stops; the impact values stay with the first impact
+ */
+export interface Trajectory {
+  points: TrajectoryPoint[]; // Ends exactly at the landing point
+  impacts: Impact[]; // Rebounds in time order
+  range: number; // Horizontal distance from the launcher to the landing point (m)
+  maxHeight: number; // Height of the apex (m)
+  apexDistance: number; // Horizontal distance from the launcher to the apex (m)
+  timeOfFlight: number; // s
+  landingX: number; // m
+  landingY: number; // Height of the landing point (m)
+  landingZ: number; // m
+  impactSpeed: number; // m/s
+  impactAngle: number; // Angle of the velocity below the horizontal at impact (degrees)
+  hitWall: boolean; // Struck a vertical face (cliff foot, platform or block side) rather than a top surface
+  runaway: 'downhill' | 'off-ground' | null; // A bouncing ball that never came to rest: the landing values are where tracking stopped
+}
+
+/**
+ * Solid the ball rebounds from in mid-air, such as a hoop rim or backboard
+ * Positions are of the tracked point of the ball (its bottom), and reach is how
+ * close that point gets before contact, so the ball's radius is built in
+ */
+export type Collider =
+  | {
+      kind: 'ring'; // Horizontal ring, centred on (x, y, z)
+      x: number;
+      y: number;
+      z: number;
+      radius: number; // Radius of the ring's centre line (m)
+      reach: number; // m
+      restitution: number; // Fraction of the normal speed kept in the rebound
+    }
+  | {
+      kind: 'board'; // Vertical board across the flight at x
+      x: number;
+      yMin: number;
+      yMax: number;
+      halfWidth: number; // Extent either side of z = 0 (m)
+      reach: number;
+      restitution: number;
+    };
+
+// Classic textbook set-ups the simulator can load
+export type ScenarioId = 'monkey-hunter' | 'table-roll' | 'plane-drop' | 'free-throw';
+
+// What the scenario asks the student to hit; it also decides the launcher and props in the scene
+export type ScenarioTarget =
+  | { kind: 'monkey'; distance: number; height: number; hitRadius: number } // Lets go of its branch at launch
+  | { kind: 'cup'; distance: number; radius: number } // On the floor below a table
+  | { kind: 'drop-zone'; distance: number; radius: number } // Below a plane flying level
+  | {
+      kind: 'hoop';
+      distance: number; // Horizontal distance to the centre of the hoop (m)
+      rimHeight: number; // m
+      rimRadius: number; // m
+      boardGap: number; // From the hoop centre to the backboard face (m)
+    };
+
+export interface ProjectileScenario {
+  id: ScenarioId;
+  name: string;
+  prompt: string; // The problem as put to the class
+  goal: string; // Success condition
+  velocity: number; // Starting launch speed (m/s)
+  angle: number; // Starting launch angle (degrees)
+  velocityRange: [number, number, number]; // Slider min, max and step (m/s)
+  angleRange: [number, number, number] | null; // Null when the launch angle is fixed
+  terrain: TerrainSettings;
+  ballRadius: number; // m
+  cameraDistance: number; // m
+  target: ScenarioTarget;
+}
+
+export interface ScenarioResult {
+  success: boolean;
+  message: string;
+}
+
+// Raised block standing on the terrain: a target pillar or an obstacle wall in challenge mode
+export interface TerrainBlock {
+  kind: 'target' | 'obstacle';
+  start: number; // Near edge (m)
+  width: number; // m
+  depth: number; // Extent across the x-y plane, centred on z = 0 (m)
+  height: number; // m
+}
+
+// One target of a challenge; the target face is the top of a pillar (height 0 = on the ground)
+export interface ChallengeTarget {
+  distance: number; // Centre of the target (m)
+  height: number; // m
+  radius: number; // m
+  obstacle: TerrainBlock | null; // Wall between the launcher and the target
+}
+
+export type ShotOutcome = 'hit' | 'miss' | 'blocked';
+
+export interface ChallengeShot {
+  velocity: number; // m/s
+  angle: number; // degrees
+  outcome: ShotOutcome;
+  missBy: number; // Landing point minus target centre (m), positive when long
+  driftBy: number; // Sideways landing offset from the target centre (m), positive towards +z
+}
+
+// Hit-the-target challenge; the targets come from the seed so a class can share one set
+export interface TargetChallenge {
+  seed: string;
+  targets: ChallengeTarget[];
+  currentIndex: number;
+  shotsPerTarget: number;
+  shots: ChallengeShot[]; // Shots at the current target
+  score: number;
+  streak: number; // Consecutive hits
+  bestStreak: number;
+  hits: number;
+  finished: boolean;
+}
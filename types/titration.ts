@@ -0,0 +1,157 @@
+/**
+ * Titration chemistry types shared by the titration simulator and its helpers
+ */
+
+export type SolutionType = 'acid' | 'base';
+
+export type AnalyteStrength = 'strong' | 'weak';
+
+// Quantity followed during the titration: pH (indicator/pH curve) or conductivity
+export type MeasurementMode = 'ph' | 'conductivity';
+
+// Reaction types the simulator can run; each is defined in titration/chemistries.ts
+export type ChemistryId = 'acid-base' | 'permanganate' | 'iodine-thiosulfate' | 'back-titration' | 'buffer' | 'standardisation';
+
+// Quantities a chemistry can chart against titrant volume
+export type MeasuredQuantity = 'pH' | 'conductivity' | 'potential';
+
+// Chart sidebar view: the raw curve or one of the end-point analysis plots
+export type ChartView = 'curve' | 'derivative' | 'secondDerivative' | 'gran' | 'capacity';
+
+// One recorded point of the titration curve; only the quantities the chemistry measures are present
+export interface TitrationDataPoint {
+  volume: number; // Titrant added (mL)
+  pH?: number;
+  conductivity?: number; // mS/cm
+  potential?: number; // mV vs SHE
+  referencePH?: number; // pH of the same additions into unbuffered water (buffer workbench)
+}
+
+export interface Analyte {
+  id: string;
+  name: string;
+  formula: string;
+  type: SolutionType;
+  strength: AnalyteStrength;
+  pKs?: number[]; // Stepwise pKa values for weak acids, pKb values for weak bases (at 25°C)
+  enthalpies?: number[]; // Standard enthalpy of each pK step (kJ/mol) for van't Hoff temperature correction
+  ionConductivities: number[]; // Molar ionic conductivity of each protonation state, fully protonated first (S cm²/mol, 25°C)
+}
+
+// One colour change of an indicator, from acidColor below lowPH to baseColor above highPH
+export interface IndicatorStage {
+  lowPH: number;
+  highPH: number;
+  acidColor: string;
+  baseColor: string;
+}
+
+export interface Indicator {
+  id: string;
+  name: string;
+  stages: IndicatorStage[]; // Ordered by increasing pH; multi-stage indicators have several
+}
+
+// Back titration: an insoluble sample is dissolved in a known excess of acid, then the excess is titrated
+export interface BackTitrationSample {
+  sampleMass: number; // g of CaCO3 weighed out
+  reagentVolume: number; // mL of HCl added in excess
+  reagentConc: number; // mol/L of that HCl
+  reagentAdded: boolean; // Whether the excess acid has been added to the flask yet
+}
+
+// Buffer workbench: a weak acid and its sodium salt, challenged with strong acid or base from the burette
+export interface BufferRecipe {
+  acidConc: number; // mol/L of the weak acid HA in the flask
+  baseConc: number; // mol/L of its conjugate base A- (as the sodium salt)
+  addition: SolutionType; // What the burette holds: 'acid' for HCl, 'base' for NaOH
+}
+
+// Primary standards that can be weighed out to standardise the titrant
+export type PrimaryStandardId = 'khp' | 'na2co3';
+
+export interface PrimaryStandard {
+  id: PrimaryStandardId;
+  name: string;
+  formula: string;
+  molarMass: number; // g/mol
+  analyteId: string; // Matching entry in the analyte list, used for the pH model
+}
+
+// Steps of preparing the standard solution, in order
+export type PreparationStage = 'weigh' | 'dissolve' | 'pipette' | 'ready';
+
+/**
+ * Standard solution prepared by the student. The recorded values are what the
+ * student would write down; the actual values include the error of each step
+ */
+export interface StandardPreparation {
+  standardId: PrimaryStandardId;
+  stage: PreparationStage;
+  balanceReading: number | null; // g, as shown on the balance
+  actualMass: number | null; // g actually transferred to the volumetric flask
+  flaskVolume: number; // Nominal volumetric flask volume (mL)
+  actualFlaskVolume: number | null; // mL the solution was actually made up to
+  pipetteVolume: number; // Nominal pipette volume (mL)
+  actualAliquot: number | null; // mL actually delivered into the conical flask
+  titrantConc: number; // True concentration of the titrant being standardised (mol/L)
+}
+
+// A calibration buffer reading taken with the pH probe
+export interface PHCalibrationPoint {
+  bufferPH: number; // Nominal pH of the standard buffer (4, 7 or 10)
+  potential: number; // Electrode potential measured in it (mV)
+}
+
+// Virtual pH meter settings; the chart records the meter's reading while it is in use
+export interface PHMeterSettings {
+  enabled: boolean;
+  responseTime: number; // Electrode time constant (s)
+  noise: number; // Standard deviation of the reading (pH units)
+  calibrationPoints: PHCalibrationPoint[]; // Readings taken so far, at most one per buffer
+  calibrated: boolean; // Whether the meter has applied a calibration from the points
+}
+
+// A burette reading taken by eye in reading mode
+export interface BuretteReadingEntry {
+  entered: number; // What the student read (mL)
+  actual: number; // True position of the bottom of the meniscus (mL)
+  parallax: number; // Apparent shift from the eye not being level with the meniscus (mL)
+}
+
+// One burette filling, as recorded in the lab notebook
+export interface BuretteFill {
+  startVolume: number; // Total titrant already added to the flask when this fill began (mL)
+  initialReading: number; // Burette reading after filling (mL)
+  finalReading: number | null; // Burette reading when the fill was closed off, null while in use
+  initialRead?: BuretteReadingEntry; // Readings taken by eye, when reading mode was used
+  finalRead?: BuretteReadingEntry;
+}
+
+// One completed titration run recorded in the lab notebook
+export interface TitrationTrial {
+  id: number;
+  fills: BuretteFill[]; // Every burette fill used, with initial and final readings
+  titre: number; // Total volume delivered (mL)
+  titreUncertainty: number | null; // ± mL when the titre comes from readings taken by eye, null for exact readings
+  endPointPH: number | null; // pH in the flask when the trial was stopped, null for redox titrations
+  indicatorName: string;
+  analyteName: string;
+  aliquotVolume: number; // Analyte volume in the flask (mL)
+  titrantConc: number; // mol/L
+  molarRatio: number; // Moles of titrant per mole of analyte at the detected end point
+  isRough: boolean;
+}
+
+export interface NotebookSummary {
+  concordantTrialIds: number[];
+  meanTitre: number | null;
+  analyteConcentration: number | null; // mol/L from the mean concordant titre
+}
+
+// Unknown-concentration challenge: the analyte concentration is hidden and derived from the seed
+export interface TitrationChallenge {
+  seed: string;
+  concentration: number; // Hidden analyte concentration (mol/L)
+  submittedAnswer: number | null;
+}
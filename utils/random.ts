@@ -0,0 +1,40 @@
+/**
+ * Seeded pseudo-random number generation
+ * Lets a teacher hand a whole class the same randomised challenge by sharing a seed
+ */
+
+// FNV-1a hash of the seed text into a 32-bit integer
+export function hashSeed(seed: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Create a deterministic random number generator (mulberry32)
+ * @param seed - Any text or number; the same seed always yields the same sequence
+ * @returns Function returning numbers in [0, 1)
+ */
+export function createSeededRandom(seed: string | number): () => number {
+  let state = typeof seed === 'number' ? seed >>> 0 : hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Short human-friendly seed for sharing, e.g. "K7QM2X"
+export function generateSeedCode(length = 6): string {
+  const alphabet = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+  let code = '';
+  for (let i = 0; i < length; i++) {
+    code += alphabet[Math.floor(Math.random() * alphabet.length)];
+  }
+  return code;
+}